@@ -31,6 +31,7 @@ export interface Chat {
     type: string;
     status?: string;
     createdAt: string;
+    isDeleted?: boolean;
   };
   lastMessageAt?: string;
   unreadCount?: number;
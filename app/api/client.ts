@@ -4,32 +4,38 @@
  * Base configuration for all API calls matching the Postman collection.
  * All endpoints use the exact paths and methods from the provided API docs.
  * Includes retry logic for rate limiting (429 errors).
+ * Every failed request is rejected with a typed ApiError (see ./errors).
+ * A 401 on an authenticated client reports the token as expired (see ./sessionEvents).
  */
 
-import axios, { AxiosError, AxiosInstance } from 'axios';
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { RateLimitedError, toApiError } from './errors';
+import { emitSessionExpired } from './sessionEvents';
 
 // Base URL from Postman collection (default: http://localhost:3000)
 const BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000';
 
+// Requests that take longer than this are rejected with a TimeoutError
+const REQUEST_TIMEOUT_MS = 30000;
+
+type RetryableRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean };
+
 /**
  * Retry request with exponential backoff for 429 errors
  */
 const retryRequest = async (
   client: AxiosInstance,
-  config: any,
+  config: RetryableRequestConfig,
   retries: number = 3,
   delay: number = 1000
-): Promise<any> => {
+): Promise<AxiosResponse> => {
   try {
     return await client.request(config);
-  } catch (error: any) {
-    const axiosError = error as AxiosError;
-
+  } catch (error) {
     // Only retry on 429 (Too Many Requests)
-    if (axiosError.response?.status === 429 && retries > 0) {
-      const retryAfter = axiosError.response.headers['retry-after'];
-      const waitTime = retryAfter
-        ? parseInt(retryAfter) * 1000
+    if (error instanceof RateLimitedError && retries > 0) {
+      const waitTime = error.retryAfter !== undefined
+        ? error.retryAfter * 1000
         : delay;
 
       console.warn(`Rate limited (429). Retrying in ${waitTime}ms... (${retries} retries left)`);
@@ -50,6 +56,7 @@ const retryRequest = async (
 export const createApiClient = (token?: string) => {
   const client = axios.create({
     baseURL: BASE_URL,
+    timeout: REQUEST_TIMEOUT_MS,
     headers: {
       'Content-Type': 'application/json',
     },
@@ -60,29 +67,26 @@ export const createApiClient = (token?: string) => {
     client.defaults.headers.common['Authorization'] = `Bearer ${token}`;
   }
 
-  // Add request interceptor to handle retries
+  // Add response interceptor to handle retries and convert errors
   client.interceptors.response.use(
     (response) => response,
     async (error: AxiosError) => {
-      const originalRequest = error.config as any;
+      const originalRequest = error.config as RetryableRequestConfig | undefined;
 
-      // Handle 429 errors with retry
-      if (error.response?.status === 429 && !originalRequest._retry) {
+      // Handle 429 errors with retry (retryRequest throws RateLimitedError when exhausted)
+      if (error.response?.status === 429 && originalRequest && !originalRequest._retry) {
         originalRequest._retry = true;
+        return retryRequest(client, originalRequest);
+      }
+
+      const apiError = toApiError(error);
 
-        try {
-          return await retryRequest(client, originalRequest);
-        } catch (retryError) {
-          // If retry fails, throw with user-friendly message
-          const axiosRetryError = retryError as AxiosError;
-          if (axiosRetryError.response?.status === 429) {
-            throw new Error('Too many requests. Please wait a moment and try again.');
-          }
-          throw retryError;
-        }
+      // Token rejected by backend - let the owning session tear itself down
+      if (apiError.kind === 'unauthorized' && token) {
+        emitSessionExpired(token, apiError.message);
       }
 
-      return Promise.reject(error);
+      return Promise.reject(apiError);
     }
   );
 
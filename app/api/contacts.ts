@@ -0,0 +1,266 @@
+/**
+ * Contacts API
+ *
+ * Maps exactly to the Contacts endpoints from Postman collection:
+ * - POST /api/v1/contacts/sync (Sync Contacts)
+ * - GET /api/v1/contacts (Get Contacts)
+ *
+ * Phone numbers never leave the browser in clear text: they are normalized
+ * and hashed with SHA-256 (WebCrypto) before being synced.
+ * Also includes parsers for importing contacts from a pasted list, CSV or vCard.
+ */
+
+import { createApiClient } from './client';
+import { ValidationError } from './errors';
+
+export interface Contact {
+  id: string;
+  phone: string;
+  username?: string;
+  isOnline?: boolean;
+  lastSeen?: string;
+}
+
+// Contact read from a local source (paste, CSV, vCard) before syncing
+export interface ImportedContact {
+  name?: string;
+  phone: string; // normalized
+}
+
+export interface SyncContactsRequest {
+  phoneHashes: string[];
+}
+
+export interface ContactsResponse {
+  success?: boolean;
+  data: { contacts?: Contact[] } | Contact[];
+}
+
+/**
+ * Normalize a phone number for hashing and comparison
+ * Keeps digits and a single leading "+" (e.g. "+1 (234) 567-890" → "+1234567890")
+ */
+export const normalizePhone = (phone: string): string => {
+  const trimmed = phone.trim();
+  const digits = trimmed.replace(/\D/g, '');
+  return trimmed.startsWith('+') ? `+${digits}` : digits;
+};
+
+const isValidPhone = (phone: string): boolean => {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length >= 6 && digits.length <= 15;
+};
+
+/**
+ * Hash a phone number with SHA-256 (hex encoded)
+ * The number is normalized first so formatting differences produce the same hash
+ */
+export const hashPhoneNumber = async (phone: string): Promise<string> => {
+  const data = new TextEncoder().encode(normalizePhone(phone));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Extract contacts array from the different response shapes
+ */
+const extractContacts = (response: ContactsResponse): Contact[] => {
+  if (Array.isArray(response.data)) {
+    return response.data;
+  }
+  if (response.data?.contacts && Array.isArray(response.data.contacts)) {
+    return response.data.contacts;
+  }
+  return [];
+};
+
+/**
+ * Sync contacts
+ * POST /api/v1/contacts/sync
+ * Requires: Bearer token
+ * Body: { "phoneHashes": ["hash1", "hash2"] }
+ *
+ * Returns the registered users that matched the hashes
+ */
+export const syncContacts = async (
+  token: string,
+  phones: string[]
+): Promise<Contact[]> => {
+  const validPhones = phones.filter(isValidPhone);
+  if (validPhones.length === 0) {
+    throw new ValidationError('No valid phone numbers to sync', {
+      phoneHashes: 'At least one valid phone number is required',
+    });
+  }
+
+  const phoneHashes = await Promise.all(validPhones.map(hashPhoneNumber));
+
+  console.log('📇 [API] Syncing contacts:', {
+    count: phoneHashes.length,
+    timestamp: new Date().toISOString(),
+  });
+
+  const client = createApiClient(token);
+  const response = await client.post<ContactsResponse>('/api/v1/contacts/sync', {
+    phoneHashes,
+  });
+
+  return extractContacts(response.data);
+};
+
+/**
+ * Get registered contacts
+ * GET /api/v1/contacts
+ * Requires: Bearer token
+ */
+export const getContacts = async (token: string): Promise<Contact[]> => {
+  const client = createApiClient(token);
+  const response = await client.get<ContactsResponse>('/api/v1/contacts');
+  return extractContacts(response.data);
+};
+
+/**
+ * Remove invalid numbers and duplicates (first occurrence wins)
+ */
+const dedupeContacts = (contacts: ImportedContact[]): ImportedContact[] => {
+  const seen = new Set<string>();
+  return contacts.filter((contact) => {
+    if (!isValidPhone(contact.phone) || seen.has(contact.phone)) {
+      return false;
+    }
+    seen.add(contact.phone);
+    return true;
+  });
+};
+
+// Phone-like run: optional "+", then digits with common separators
+const PHONE_PATTERN = /\+?\d[\d\s().-]{4,}\d/;
+
+/**
+ * Parse a pasted list of contacts
+ * One contact per line, e.g. "+1234567890" or "Alice, +1 234 567 890"
+ */
+export const parseContactList = (text: string): ImportedContact[] => {
+  const contacts = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line): ImportedContact | null => {
+      const match = line.match(PHONE_PATTERN);
+      if (!match) return null;
+      const name = line.replace(match[0], '').replace(/^[\s,;:-]+|[\s,;:-]+$/g, '');
+      return { name: name || undefined, phone: normalizePhone(match[0]) };
+    })
+    .filter((contact): contact is ImportedContact => contact !== null);
+
+  return dedupeContacts(contacts);
+};
+
+/**
+ * Split one CSV line, honouring double-quoted fields
+ */
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+
+  return fields;
+};
+
+/**
+ * Parse a CSV export of contacts
+ * Uses "phone"/"mobile"/"tel" and "name" header columns when present,
+ * otherwise the first phone-like field of each row
+ */
+export const parseContactsCsv = (text: string): ImportedContact[] => {
+  const rows = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .map(splitCsvLine);
+
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((cell) => cell.toLowerCase());
+  const phoneColumn = header.findIndex((cell) => /phone|mobile|tel/.test(cell));
+  const nameColumn = header.findIndex((cell) => /name/.test(cell));
+  const hasHeader = phoneColumn >= 0;
+
+  const contacts = (hasHeader ? rows.slice(1) : rows)
+    .map((row): ImportedContact | null => {
+      const phoneCell = hasHeader
+        ? row[phoneColumn]
+        : row.find((cell) => PHONE_PATTERN.test(cell));
+      if (!phoneCell) return null;
+
+      const name = hasHeader && nameColumn >= 0
+        ? row[nameColumn]
+        : row.find((cell) => cell && cell !== phoneCell);
+      return { name: name || undefined, phone: normalizePhone(phoneCell) };
+    })
+    .filter((contact): contact is ImportedContact => contact !== null);
+
+  return dedupeContacts(contacts);
+};
+
+/**
+ * Parse a vCard (.vcf) file with one or more cards
+ * Every TEL entry of a card becomes a contact with the card's FN as name
+ */
+export const parseVCard = (text: string): ImportedContact[] => {
+  // Unfold continuation lines (RFC 6350: lines starting with a space or tab)
+  const unfolded = text.replace(/\r?\n[ \t]/g, '');
+  const contacts: ImportedContact[] = [];
+
+  unfolded.split(/BEGIN:VCARD/i).slice(1).forEach((card) => {
+    const lines = card.split(/\r?\n/);
+    const fullName = lines
+      .find((line) => /^FN[;:]/i.test(line))
+      ?.replace(/^FN[^:]*:/i, '')
+      .trim();
+
+    lines
+      .filter((line) => /^(item\d+\.)?TEL[;:]/i.test(line))
+      .forEach((line) => {
+        const value = line.slice(line.indexOf(':') + 1).replace(/^tel:/i, '');
+        contacts.push({ name: fullName || undefined, phone: normalizePhone(value) });
+      });
+  });
+
+  return dedupeContacts(contacts);
+};
+
+/**
+ * Parse an imported contacts file, picking the parser from its name
+ */
+export const parseContactsFile = async (file: File): Promise<ImportedContact[]> => {
+  const text = await file.text();
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith('.vcf') || name.endsWith('.vcard') || /BEGIN:VCARD/i.test(text)) {
+    return parseVCard(text);
+  }
+  if (name.endsWith('.csv')) {
+    return parseContactsCsv(text);
+  }
+  return parseContactList(text);
+};
@@ -0,0 +1,252 @@
+/**
+ * API Errors
+ *
+ * Typed error hierarchy thrown by every function in app/api.
+ * The API client converts axios failures into one of these classes, so UI code
+ * can branch on `error.kind` instead of digging into `error.response.data`.
+ */
+
+import axios, { AxiosError } from 'axios';
+
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'validation'
+  | 'rate_limited'
+  | 'server'
+  | 'aborted'
+  | 'unknown';
+
+// Error body shape returned by the backend, e.g. { success: false, message: "...", errors: [...] }
+interface ApiErrorBody {
+  message?: string;
+  error?: string;
+  errors?: Array<{ field?: string; path?: string; message?: string; msg?: string }> | Record<string, string | string[]>;
+}
+
+/**
+ * Base class for all API errors
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly data?: unknown;
+
+  constructor(kind: ApiErrorKind, message: string, status?: number, data?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+    this.data = data;
+  }
+}
+
+/**
+ * Request never reached the server (offline, DNS, CORS, server down)
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string = 'Unable to reach the server. Check your connection.') {
+    super('network', message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Request was sent but no response arrived in time
+ */
+export class TimeoutError extends ApiError {
+  constructor(message: string = 'The request timed out. Please try again.') {
+    super('timeout', message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * 401 - missing, invalid or expired token
+ */
+export class UnauthorizedError extends ApiError {
+  constructor(message: string = 'Your session has expired. Please sign in again.', data?: unknown) {
+    super('unauthorized', message, 401, data);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * 403 - authenticated but not allowed
+ */
+export class ForbiddenError extends ApiError {
+  constructor(message: string = 'You are not allowed to perform this action.', data?: unknown) {
+    super('forbidden', message, 403, data);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/**
+ * 404 - resource does not exist
+ */
+export class NotFoundError extends ApiError {
+  constructor(message: string = 'The requested resource was not found.', data?: unknown) {
+    super('not_found', message, 404, data);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * 400/422 - request rejected by backend validation
+ * fieldErrors maps a request field name to its error message
+ */
+export class ValidationError extends ApiError {
+  readonly fieldErrors: Record<string, string>;
+
+  constructor(
+    message: string = 'The request is invalid.',
+    fieldErrors: Record<string, string> = {},
+    status: number = 400,
+    data?: unknown
+  ) {
+    super('validation', message, status, data);
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * 429 - rate limited after client-side retries were exhausted
+ * retryAfter is in seconds, when the server provides it
+ */
+export class RateLimitedError extends ApiError {
+  readonly retryAfter?: number;
+
+  constructor(
+    message: string = 'Too many requests. Please wait a moment and try again.',
+    retryAfter?: number,
+    data?: unknown
+  ) {
+    super('rate_limited', message, 429, data);
+    this.name = 'RateLimitedError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * 5xx - backend failure
+ */
+export class ServerError extends ApiError {
+  constructor(message: string = 'The server encountered an error. Please try again later.', status: number = 500, data?: unknown) {
+    super('server', message, status, data);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Request was cancelled through its AbortSignal
+ * Callers usually ignore this - a newer request superseded the cancelled one
+ */
+export class AbortedError extends ApiError {
+  constructor(message: string = 'The request was cancelled.') {
+    super('aborted', message);
+    this.name = 'AbortedError';
+  }
+}
+
+/**
+ * Parse a Retry-After header value (seconds or HTTP date) into seconds
+ */
+export const parseRetryAfter = (value: unknown): number | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(String(value));
+  if (!Number.isNaN(date)) return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+
+  return undefined;
+};
+
+/**
+ * Extract field errors from the backend error body
+ * Supports both array form ([{ field, message }]) and object form ({ field: message })
+ */
+const extractFieldErrors = (body?: ApiErrorBody): Record<string, string> => {
+  const fieldErrors: Record<string, string> = {};
+  if (!body?.errors) return fieldErrors;
+
+  if (Array.isArray(body.errors)) {
+    body.errors.forEach((entry) => {
+      const field = entry.field || entry.path;
+      const message = entry.message || entry.msg;
+      if (field && message) {
+        fieldErrors[field] = message;
+      }
+    });
+  } else {
+    Object.entries(body.errors).forEach(([field, message]) => {
+      fieldErrors[field] = Array.isArray(message) ? message.join(', ') : message;
+    });
+  }
+
+  return fieldErrors;
+};
+
+/**
+ * Convert any thrown value into an ApiError
+ * Already-converted errors are returned unchanged
+ */
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (axios.isCancel(error)) {
+    return new AbortedError();
+  }
+
+  if (!axios.isAxiosError(error)) {
+    const message = error instanceof Error ? error.message : 'Unexpected error';
+    return new ApiError('unknown', message);
+  }
+
+  const axiosError = error as AxiosError<ApiErrorBody>;
+
+  if (axiosError.code === AxiosError.ECONNABORTED || axiosError.code === AxiosError.ETIMEDOUT) {
+    return new TimeoutError();
+  }
+
+  if (!axiosError.response) {
+    return new NetworkError();
+  }
+
+  const { status, data, headers } = axiosError.response;
+  const serverMessage = data?.message || data?.error;
+
+  switch (true) {
+    case status === 400 || status === 422:
+      return new ValidationError(serverMessage, extractFieldErrors(data), status, data);
+    case status === 401:
+      return new UnauthorizedError(serverMessage, data);
+    case status === 403:
+      return new ForbiddenError(serverMessage, data);
+    case status === 404:
+      return new NotFoundError(serverMessage, data);
+    case status === 429:
+      return new RateLimitedError(serverMessage, parseRetryAfter(headers['retry-after']), data);
+    case status >= 500:
+      return new ServerError(serverMessage, status, data);
+    default:
+      return new ApiError('unknown', serverMessage || axiosError.message, status, data);
+  }
+};
+
+/**
+ * Get a user-facing message from any thrown value
+ */
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof ApiError || error instanceof Error) {
+    return error.message || fallback;
+  }
+  return fallback;
+};
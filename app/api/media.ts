@@ -0,0 +1,344 @@
+/**
+ * Media API
+ *
+ * Maps exactly to the Media endpoints from Postman collection:
+ * - POST /api/v1/media/upload (Upload File, multipart form data: file)
+ * - DELETE /api/v1/media (Delete File, body: { url })
+ *
+ * Uploads report progress, can be cancelled with an AbortSignal and are
+ * validated (MIME type and size) before any bytes are sent.
+ * The upload result carries a message type and content string that can be
+ * passed straight to sendMessage.
+ * Images are compressed, stripped of metadata and uploaded with a thumbnail.
+ */
+
+import { createApiClient } from './client';
+import { ApiError, ValidationError } from './errors';
+import { MessageType } from './messages';
+import { ImageCompressionOptions, canCompressImage, compressImage } from '../utils/imageCompression';
+
+export type MediaMessageType = Exclude<MessageType, 'text'>;
+
+// Metadata stored as the content of a media message
+export interface MediaAttachment {
+  url: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  duration?: number; // seconds, for voice and video
+  thumbnailUrl?: string;
+  caption?: string;
+  width?: number; // pixels, for compressed images
+  height?: number;
+}
+
+export interface MediaUploadResult {
+  type: MediaMessageType;
+  content: string; // serialized MediaAttachment, ready for sendMessage
+  attachment: MediaAttachment;
+}
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  percent: number; // 0-100
+}
+
+export interface UploadMediaOptions {
+  type?: MediaMessageType; // defaults to the type derived from the MIME type
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+  duration?: number;
+  thumbnailUrl?: string;
+  caption?: string;
+  compress?: ImageCompressionOptions | false; // images only, on by default
+}
+
+export interface MediaUploadResponse {
+  success?: boolean;
+  data: {
+    url?: string;
+    fileUrl?: string;
+    mimeType?: string;
+    size?: number;
+    fileName?: string;
+  };
+  message?: string;
+}
+
+// Size limits per message type (bytes)
+export const MEDIA_SIZE_LIMITS: Record<MediaMessageType, number> = {
+  image: 10 * 1024 * 1024,
+  video: 50 * 1024 * 1024,
+  voice: 10 * 1024 * 1024,
+  file: 25 * 1024 * 1024,
+};
+
+// Images that get compressed before upload may start out larger
+export const IMAGE_SOURCE_SIZE_LIMIT = 40 * 1024 * 1024;
+
+// Allowed MIME types per message type ("*" allows anything)
+export const MEDIA_ALLOWED_TYPES: Record<MediaMessageType, string[]> = {
+  image: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
+  video: ['video/mp4', 'video/webm', 'video/quicktime'],
+  voice: ['audio/webm', 'audio/ogg', 'audio/mpeg', 'audio/mp4', 'audio/wav'],
+  file: ['*'],
+};
+
+// Uploads can take much longer than regular requests
+const UPLOAD_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Derive the message type from a MIME type
+ */
+export const getMediaMessageType = (mimeType: string): MediaMessageType => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'voice';
+  return 'file';
+};
+
+/**
+ * Validate a file before upload
+ * Compressible images are checked against the larger source limit, unless
+ * compression is turned off (options.compress === false)
+ * Throws ValidationError when the type is not allowed or the file is too large
+ */
+export const validateMediaFile = (
+  file: File | Blob,
+  type: MediaMessageType = getMediaMessageType(file.type),
+  options: Pick<UploadMediaOptions, 'compress'> = {}
+): void => {
+  // MediaRecorder reports e.g. "audio/webm;codecs=opus" - compare the base type
+  const baseMimeType = file.type.split(';')[0];
+  const allowed = MEDIA_ALLOWED_TYPES[type];
+
+  if (!allowed.includes('*') && !allowed.includes(baseMimeType)) {
+    throw new ValidationError(`Unsupported ${type} format: ${file.type || 'unknown'}`, {
+      file: `Allowed types: ${allowed.join(', ')}`,
+    });
+  }
+
+  if (file.size === 0) {
+    throw new ValidationError('File is empty', { file: 'File is empty' });
+  }
+
+  const willCompress = type === 'image' && options.compress !== false && canCompressImage(file);
+  const limit = willCompress ? IMAGE_SOURCE_SIZE_LIMIT : MEDIA_SIZE_LIMITS[type];
+  if (file.size > limit) {
+    const limitMb = Math.round(limit / (1024 * 1024));
+    throw new ValidationError(`File is too large (max ${limitMb} MB for ${type})`, {
+      file: `Maximum size is ${limitMb} MB`,
+    });
+  }
+};
+
+/**
+ * Serialize attachment metadata as message content
+ */
+export const serializeMediaContent = (attachment: MediaAttachment): string => {
+  return JSON.stringify(attachment);
+};
+
+// URLs we render in src/href - anything else (javascript:, vbscript:, ...) is dropped
+const SAFE_URL_PATTERN = /^(https?:|blob:|data:|\/)/;
+
+const isSafeUrl = (value: unknown): value is string => typeof value === 'string' && SAFE_URL_PATTERN.test(value);
+
+// File name from the last path segment; malformed escapes (e.g. %E0) are kept as is
+const fileNameFromUrl = (url: string): string => {
+  const segment = url.split('?')[0].split('/').pop() || 'file';
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+/**
+ * Parse media message content
+ * Accepts serialized MediaAttachment JSON or a bare URL (older messages)
+ * Returns null when the content is neither, or its URL has an unsafe scheme
+ */
+export const parseMediaContent = (content: string): MediaAttachment | null => {
+  const trimmed = content.trim();
+
+  if (trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (parsed && isSafeUrl(parsed.url)) {
+        return {
+          url: parsed.url,
+          name: typeof parsed.name === 'string' ? parsed.name : parsed.url.split('/').pop() || 'file',
+          size: typeof parsed.size === 'number' ? parsed.size : 0,
+          mimeType: typeof parsed.mimeType === 'string' ? parsed.mimeType : '',
+          duration: typeof parsed.duration === 'number' ? parsed.duration : undefined,
+          thumbnailUrl: isSafeUrl(parsed.thumbnailUrl) ? parsed.thumbnailUrl : undefined,
+          caption: typeof parsed.caption === 'string' ? parsed.caption : undefined,
+          width: typeof parsed.width === 'number' ? parsed.width : undefined,
+          height: typeof parsed.height === 'number' ? parsed.height : undefined,
+        };
+      }
+    } catch {
+      return null;
+    }
+    return null;
+  }
+
+  if (isSafeUrl(trimmed)) {
+    return { url: trimmed, name: fileNameFromUrl(trimmed), size: 0, mimeType: '' };
+  }
+
+  return null;
+};
+
+/**
+ * Short text for chat list previews of a message
+ */
+export const getMessagePreview = (type: string, content: string): string => {
+  const attachment = type === 'text' ? null : parseMediaContent(content);
+  if (!attachment) return content;
+
+  switch (type) {
+    case 'image':
+      return `📷 ${attachment.caption || 'Photo'}`;
+    case 'video':
+      return `🎥 ${attachment.caption || 'Video'}`;
+    case 'voice':
+      return '🎤 Voice message';
+    default:
+      return `📎 ${attachment.name}`;
+  }
+};
+
+/**
+ * Upload a single file and return its attachment metadata
+ * POST /api/v1/media/upload
+ */
+const uploadFile = async (
+  token: string,
+  file: File | Blob,
+  type: MediaMessageType,
+  options: Pick<UploadMediaOptions, 'onProgress' | 'signal'>
+): Promise<MediaAttachment> => {
+  const fileName = file instanceof File ? file.name : `${type}-${Date.now()}`;
+  const formData = new FormData();
+  formData.append('file', file, fileName);
+
+  console.log('📤 [API] Uploading media:', {
+    type,
+    fileName,
+    size: file.size,
+    mimeType: file.type,
+    timestamp: new Date().toISOString(),
+  });
+
+  const client = createApiClient(token);
+  const response = await client.post<MediaUploadResponse>('/api/v1/media/upload', formData, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+    timeout: UPLOAD_TIMEOUT_MS,
+    signal: options.signal,
+    onUploadProgress: (event) => {
+      const total = event.total || file.size;
+      options.onProgress?.({
+        loaded: event.loaded,
+        total,
+        percent: total ? Math.min(100, Math.round((event.loaded / total) * 100)) : 0,
+      });
+    },
+  });
+
+  const url = response.data.data?.url || response.data.data?.fileUrl;
+  if (!url) {
+    throw new ApiError('server', 'Upload response did not include a file URL');
+  }
+
+  console.log('✅ [API] Media uploaded:', { type, url });
+
+  return {
+    url,
+    name: response.data.data.fileName || fileName,
+    size: response.data.data.size ?? file.size,
+    mimeType: response.data.data.mimeType || file.type,
+  };
+};
+
+/**
+ * Upload a file
+ * POST /api/v1/media/upload
+ * Requires: Bearer token
+ * Form data: file
+ *
+ * Images are compressed first (unless options.compress is false) and their
+ * thumbnail is uploaded before the full image.
+ */
+export const uploadMedia = async (
+  token: string,
+  file: File | Blob,
+  options: UploadMediaOptions = {}
+): Promise<MediaUploadResult> => {
+  const type = options.type || getMediaMessageType(file.type);
+  validateMediaFile(file, type, options);
+
+  let uploadFileBlob = file;
+  let thumbnailUrl = options.thumbnailUrl;
+  let dimensions: Pick<MediaAttachment, 'width' | 'height'> = {};
+
+  if (type === 'image' && options.compress !== false && canCompressImage(file)) {
+    const compressed = await compressImage(file, options.compress || undefined);
+    uploadFileBlob = compressed.file;
+    if (uploadFileBlob.size > MEDIA_SIZE_LIMITS.image) {
+      const limitMb = Math.round(MEDIA_SIZE_LIMITS.image / (1024 * 1024));
+      throw new ValidationError(`Image is too large even after compression (max ${limitMb} MB)`, {
+        file: `Maximum size is ${limitMb} MB`,
+      });
+    }
+    dimensions = { width: compressed.width, height: compressed.height };
+
+    if (!thumbnailUrl) {
+      const thumbnail = await uploadFile(token, compressed.thumbnail, type, { signal: options.signal });
+      thumbnailUrl = thumbnail.url;
+    }
+  }
+
+  let uploaded: MediaAttachment;
+  try {
+    uploaded = await uploadFile(token, uploadFileBlob, type, options);
+  } catch (error) {
+    // Don't leave a thumbnail we uploaded orphaned on the server
+    if (thumbnailUrl && thumbnailUrl !== options.thumbnailUrl) {
+      deleteMedia(token, thumbnailUrl).catch((deleteError) => {
+        console.warn('⚠️ [API] Failed to delete orphaned thumbnail:', deleteError);
+      });
+    }
+    throw error;
+  }
+
+  const attachment: MediaAttachment = {
+    ...uploaded,
+    ...dimensions,
+    duration: options.duration,
+    thumbnailUrl,
+    caption: options.caption,
+  };
+
+  return {
+    type,
+    content: serializeMediaContent(attachment),
+    attachment,
+  };
+};
+
+/**
+ * Delete an uploaded file
+ * DELETE /api/v1/media
+ * Requires: Bearer token
+ * Body: { "url": "file_url" }
+ */
+export const deleteMedia = async (
+  token: string,
+  url: string
+): Promise<void> => {
+  const client = createApiClient(token);
+  await client.delete('/api/v1/media', { data: { url } });
+};
@@ -29,6 +29,7 @@ export interface MessageApiResponse {
   status: MessageStatus;
   createdAt: string;
   updatedAt?: string;
+  isDeleted?: boolean; // deleted for everyone
 }
 
 // Internal Message format (what we use in the app)
@@ -42,8 +43,18 @@ export interface Message {
   isDelivered: boolean;
   createdAt: string;
   updatedAt?: string;
+  isDeleted?: boolean; // deleted for everyone - shown as a tombstone
+  // Local-only fields for messages sent from this client
+  clientId?: string; // temporary ID assigned before the server responds (kept after reconciling)
+  sendState?: 'pending' | 'queued' | 'failed'; // unset once the server has the message; queued = in the offline outbox
 }
 
+// Messages fetched per page (newest page first, older pages by `before` cursor)
+export const MESSAGE_PAGE_SIZE = 50;
+
+// Shown in place of messages deleted for everyone
+export const DELETED_MESSAGE_TEXT = 'This message was deleted';
+
 /**
  * Transform API response to internal Message format
  */
@@ -58,6 +69,7 @@ export const transformMessage = (apiMessage: MessageApiResponse): Message => {
     isDelivered: apiMessage.status === 'delivered' || apiMessage.status === 'read',
     createdAt: apiMessage.createdAt,
     updatedAt: apiMessage.updatedAt,
+    isDeleted: apiMessage.isDeleted,
   };
 };
 
@@ -83,6 +95,32 @@ export interface EditMessageRequest {
   content: string;
 }
 
+// Messages can be edited by their sender for this long after sending
+export const MESSAGE_EDIT_WINDOW_MS = 30 * 60 * 1000;
+
+/**
+ * Whether a message can still be edited by the given user
+ * Only text messages are editable; the server enforces the same window
+ */
+export const canEditMessage = (message: Message, userId: string, now: number): boolean => {
+  return (
+    message.senderId === userId &&
+    message.type === 'text' &&
+    !message.isDeleted &&
+    !message.sendState &&
+    now - new Date(message.createdAt).getTime() < MESSAGE_EDIT_WINDOW_MS
+  );
+};
+
+/**
+ * Whether a message has been edited since it was sent
+ * Tolerates the small gap between createdAt and updatedAt on creation
+ */
+export const isMessageEdited = (message: Message): boolean => {
+  if (!message.updatedAt) return false;
+  return new Date(message.updatedAt).getTime() - new Date(message.createdAt).getTime() > 1000;
+};
+
 /**
  * Send a new message
  * POST /api/v1/messages
@@ -155,7 +193,7 @@ export const sendMessage = async (
 export const getChatMessages = async (
   token: string,
   chatId: string,
-  limit: number = 50,
+  limit: number = MESSAGE_PAGE_SIZE,
   before?: string
 ): Promise<Message[]> => {
   console.log('📥 [API] Fetching messages for chat:', {
@@ -257,6 +295,48 @@ export const getChatMessages = async (
   return transformed;
 };
 
+/**
+ * Get the messages newer than a known one (catch-up after a reconnect)
+ * GET /api/v1/messages/chat/:chatId?limit=50&before=messageId
+ * Requires: Bearer token
+ *
+ * The API only pages backwards, so this fetches the newest page and keeps
+ * paging until it reaches `since`. The result always includes the newest
+ * page, so statuses of recent messages are refreshed too.
+ * complete is false when `since` wasn't reached within maxPages - the
+ * result is then the newest messages only, with a gap before them.
+ */
+export const getMessagesSince = async (
+  token: string,
+  chatId: string,
+  since?: Pick<Message, 'id' | 'createdAt'>,
+  maxPages: number = 5
+): Promise<{ messages: Message[]; complete: boolean }> => {
+  const collected: Message[] = [];
+  let before: string | undefined;
+
+  for (let page = 0; page < maxPages; page++) {
+    const messages = await getChatMessages(token, chatId, MESSAGE_PAGE_SIZE, before);
+    collected.push(...messages);
+
+    const reachedSince =
+      !since ||
+      messages.some(
+        (m) => m.id === since.id || new Date(m.createdAt).getTime() <= new Date(since.createdAt).getTime()
+      );
+    // A short page means the start of the chat
+    if (reachedSince || messages.length < MESSAGE_PAGE_SIZE) {
+      return { messages: collected, complete: true };
+    }
+
+    const oldest = messages.reduce((a, b) => (new Date(a.createdAt) <= new Date(b.createdAt) ? a : b));
+    before = oldest.id;
+  }
+
+  console.warn('⚠️ [API] Catch-up did not reach the last known message:', { chatId, since: since?.id, maxPages });
+  return { messages: collected, complete: false };
+};
+
 /**
  * Mark all messages in a chat as read
  * PUT /api/v1/messages/:chatId/read
@@ -293,11 +373,23 @@ export const editMessage = async (
   messageId: string,
   content: string
 ): Promise<Message> => {
+  console.log('✏️ [API] Editing message:', {
+    messageId,
+    content: content.substring(0, 50) + (content.length > 50 ? '...' : ''),
+    timestamp: new Date().toISOString(),
+  });
+
   const client = createApiClient(token);
   const response = await client.put<MessageResponse>(
     `/api/v1/messages/${messageId}/edit`,
     { content }
   );
+
+  console.log('✅ [API] Message edited:', {
+    messageId: response.data.data.id,
+    updatedAt: response.data.data.updatedAt,
+  });
+
   // Transform API response to internal format
   return transformMessage(response.data.data);
 };
@@ -312,8 +404,16 @@ export const deleteMessage = async (
   messageId: string,
   deleteForEveryone: boolean = false
 ): Promise<void> => {
+  console.log('🗑️ [API] Deleting message:', {
+    messageId,
+    deleteForEveryone,
+    timestamp: new Date().toISOString(),
+  });
+
   const client = createApiClient(token);
   await client.delete(
     `/api/v1/messages/${messageId}?deleteForEveryone=${deleteForEveryone}`
   );
+
+  console.log('✅ [API] Message deleted:', { messageId, deleteForEveryone });
 };
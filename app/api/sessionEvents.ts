@@ -0,0 +1,54 @@
+/**
+ * Session Events
+ *
+ * Shared "session expired" signal for REST and Socket.IO auth failures.
+ * Both the API client and ChatSocket report here, so a session is torn down
+ * once no matter how many requests fail with the same dead token.
+ */
+
+export interface SessionExpiredEvent {
+  token: string;
+  reason: string;
+}
+
+type SessionExpiredListener = (event: SessionExpiredEvent) => void;
+
+const listeners = new Set<SessionExpiredListener>();
+
+// Tokens already reported, so each expired token is only announced once
+const expiredTokens = new Set<string>();
+
+/**
+ * Subscribe to session expiry
+ * Returns an unsubscribe function
+ */
+export const onSessionExpired = (listener: SessionExpiredListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Report that a token was rejected by the backend
+ * Listeners should compare event.token with their own session token
+ */
+export const emitSessionExpired = (token: string, reason: string): void => {
+  if (expiredTokens.has(token)) {
+    return;
+  }
+  expiredTokens.add(token);
+
+  console.warn('🔒 [SESSION] Session expired:', {
+    reason,
+    timestamp: new Date().toISOString(),
+  });
+
+  listeners.forEach((listener) => {
+    try {
+      listener({ token, reason });
+    } catch (error) {
+      console.error('❌ [SESSION] Session expired listener failed:', error);
+    }
+  });
+};
@@ -9,6 +9,7 @@
  */
 
 import { createApiClient } from './client';
+import { ValidationError } from './errors';
 
 export interface User {
   id: string;
@@ -98,22 +99,30 @@ export const getUserById = async (
  * - Excludes current user from results
  * - Limited to 20 results
  * - Results sorted alphabetically by username
+ *
+ * Pass an AbortSignal to cancel a superseded search (rejects with AbortedError)
  */
 export const searchUsers = async (
   token: string,
-  searchTerm: string
+  searchTerm: string,
+  signal?: AbortSignal
 ): Promise<User[]> => {
   if (!searchTerm.trim() || searchTerm.length < 1) {
-    throw new Error('Search term must be at least 1 character');
+    throw new ValidationError('Search term must be at least 1 character', {
+      q: 'Search term must be at least 1 character',
+    });
   }
 
   if (searchTerm.length > 100) {
-    throw new Error('Search term must be at most 100 characters');
+    throw new ValidationError('Search term must be at most 100 characters', {
+      q: 'Search term must be at most 100 characters',
+    });
   }
 
   const client = createApiClient(token);
   const response = await client.get<SearchUsersResponse>(
-    `/api/v1/users/search?q=${encodeURIComponent(searchTerm.trim())}`
+    `/api/v1/users/search?q=${encodeURIComponent(searchTerm.trim())}`,
+    { signal }
   );
 
   // Return users array from the nested data structure
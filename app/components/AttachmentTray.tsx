@@ -0,0 +1,139 @@
+/**
+ * AttachmentTray Component
+ *
+ * Staging area for files dropped or pasted into the chat:
+ * - Image/video previews and file cards
+ * - Caption input and remove button per file
+ * - Per-file upload progress and errors
+ * - Rejected files (too large or disallowed type)
+ */
+
+'use client';
+
+import { StagedAttachment } from '../hooks/useAttachments';
+
+interface AttachmentTrayProps {
+  attachments: StagedAttachment[];
+  rejections: string[];
+  isSending: boolean;
+  disabled?: boolean;
+  onCaptionChange: (id: string, caption: string) => void;
+  onRemove: (id: string) => void;
+  onSend: () => void;
+  onDismissRejections: () => void;
+}
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export default function AttachmentTray({
+  attachments,
+  rejections,
+  isSending,
+  disabled = false,
+  onCaptionChange,
+  onRemove,
+  onSend,
+  onDismissRejections,
+}: AttachmentTrayProps) {
+  if (attachments.length === 0 && rejections.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border-t border-gray-700 bg-gray-800 p-2 space-y-2">
+      {/* Rejected files */}
+      {rejections.length > 0 && (
+        <div className="flex items-start justify-between gap-2 p-2 bg-red-900/50 border border-red-700 rounded text-red-200 text-xs">
+          <div className="space-y-0.5">
+            {rejections.map((rejection) => (
+              <div key={rejection}>{rejection}</div>
+            ))}
+          </div>
+          <button onClick={onDismissRejections} className="shrink-0 hover:text-white" title="Dismiss">
+            ✕
+          </button>
+        </div>
+      )}
+
+      {/* Staged files */}
+      {attachments.length > 0 && (
+        <>
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {attachments.map((attachment) => (
+              <div
+                key={attachment.id}
+                className={`relative shrink-0 w-40 rounded border bg-gray-900 ${
+                  attachment.status === 'failed' ? 'border-red-600' : 'border-gray-700'
+                }`}
+              >
+                <button
+                  onClick={() => onRemove(attachment.id)}
+                  className="absolute top-1 right-1 z-10 w-5 h-5 bg-black/60 text-white text-xs rounded hover:bg-black/80"
+                  title={attachment.status === 'uploading' ? 'Cancel upload' : 'Remove'}
+                >
+                  ✕
+                </button>
+
+                {/* Preview */}
+                <div className="h-24 flex items-center justify-center overflow-hidden rounded-t bg-gray-950">
+                  {attachment.type === 'image' && attachment.previewUrl ? (
+                    // eslint-disable-next-line @next/next/no-img-element -- local object URL preview
+                    <img src={attachment.previewUrl} alt={attachment.file.name} className="h-full w-full object-cover" />
+                  ) : attachment.type === 'video' && attachment.previewUrl ? (
+                    <video src={attachment.previewUrl} muted preload="metadata" className="h-full w-full object-cover" />
+                  ) : (
+                    <span className="text-3xl">📎</span>
+                  )}
+                </div>
+
+                <div className="p-1.5 space-y-1">
+                  <div className="text-xs text-gray-300 truncate" title={attachment.file.name}>
+                    {attachment.file.name}
+                  </div>
+                  <div className="text-[10px] text-gray-500">{formatFileSize(attachment.file.size)}</div>
+
+                  {attachment.status === 'uploading' ? (
+                    <div className="h-1.5 bg-gray-700 rounded overflow-hidden">
+                      <div
+                        className="h-full bg-blue-500 transition-all"
+                        style={{ width: `${attachment.progress}%` }}
+                      />
+                    </div>
+                  ) : (
+                    <input
+                      type="text"
+                      value={attachment.caption}
+                      onChange={(e) => onCaptionChange(attachment.id, e.target.value)}
+                      placeholder="Add a caption..."
+                      className="w-full px-1.5 py-0.5 border border-gray-600 rounded bg-gray-700 text-white placeholder-gray-500 text-xs focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                  )}
+
+                  {attachment.status === 'failed' && attachment.error && (
+                    <div className="text-[10px] text-red-400 break-words">{attachment.error}</div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              onClick={onSend}
+              disabled={disabled || isSending}
+              className="px-4 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+            >
+              {isSending
+                ? 'Sending...'
+                : `Send ${attachments.length} attachment${attachments.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
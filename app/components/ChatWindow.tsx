@@ -2,19 +2,26 @@
  * ChatWindow Component
  *
  * Displays the active chat conversation with:
- * - Message list
+ * - Virtualized message list, with older pages loaded when scrolled to the top
  * - Message input
  * - Real-time message updates
+ * - Inline editing of own messages within the edit window
+ * - Deleting messages for me or for everyone
+ * - Pending/failed states for outgoing messages, with retry and discard
+ * - Attachments via drag-and-drop, paste or file picker
  */
 
 'use client';
 
-import { useEffect, useRef, useState, useMemo } from 'react';
-import { Message } from '../api/messages';
+import { useEffect, useLayoutEffect, useRef, useState, useMemo } from 'react';
+import { Message, canEditMessage } from '../api/messages';
 import { Call } from '../api/calls';
 import MessageBubble from './MessageBubble';
 import CallHistoryEntry from './CallHistoryEntry';
 import InputBox from './InputBox';
+import AttachmentTray from './AttachmentTray';
+import { useAttachments, SendAttachment } from '../hooks/useAttachments';
+import { useVirtualList } from '../hooks/useVirtualList';
 
 interface ChatWindowProps {
   messages: Message[];
@@ -22,23 +29,99 @@ interface ChatWindowProps {
   currentUserId: string;
   otherUserName?: string;
   onSendMessage: (content: string) => void;
+  onEditMessage?: (messageId: string, content: string) => Promise<boolean>; // enables editing
+  onDeleteMessage?: (message: Message, deleteForEveryone: boolean) => Promise<boolean>; // enables deleting
+  onRetryMessage?: (message: Message) => void;
+  onDiscardMessage?: (message: Message) => void;
+  onSendVoiceNote?: (file: File, duration: number) => Promise<void>;
+  onSendAttachment?: SendAttachment; // enables attachments
+  hasMoreMessages?: boolean;
+  isLoadingOlderMessages?: boolean;
+  onLoadOlderMessages?: () => void; // enables loading older pages on scroll
   disabled?: boolean;
 }
 
+type TimelineItem = { type: 'message' | 'call'; data: Message | Call; timestamp: Date };
+
+// Outgoing messages keep their client ID as key, so confirming them doesn't remount the bubble
+const getTimelineKey = (item: TimelineItem): string =>
+  item.type === 'message'
+    ? `message-${(item.data as Message).clientId || item.data.id}`
+    : `call-${item.data.id}`;
+
+const getItemKey = (item?: TimelineItem): string | null => (item ? getTimelineKey(item) : null);
+
+// Rough heights until items are measured
+const estimateTimelineItemSize = (item: TimelineItem): number => {
+  if (item.type === 'call') return 56;
+  const message = item.data as Message;
+  if (message.isDeleted) return 64;
+  switch (message.type) {
+    case 'image':
+    case 'video':
+      return 280;
+    case 'voice':
+    case 'file':
+      return 96;
+    default:
+      return 64 + Math.floor(message.content.length / 60) * 20;
+  }
+};
+
 export default function ChatWindow({
   messages,
   callHistory = [],
   currentUserId,
   otherUserName,
   onSendMessage,
+  onEditMessage,
+  onDeleteMessage,
+  onRetryMessage,
+  onDiscardMessage,
+  onSendVoiceNote,
+  onSendAttachment,
+  hasMoreMessages = false,
+  isLoadingOlderMessages = false,
+  onLoadOlderMessages,
   disabled = false,
 }: ChatWindowProps) {
   const [inputValue, setInputValue] = useState('');
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const topSentinelRef = useRef<HTMLDivElement>(null);
+  const lastItemKeyRef = useRef<string | null>(null);
+  const chatIdRef = useRef<string | null>(null);
+  // Scroll position captured before an older page is requested
+  const scrollAnchorRef = useRef<{ scrollHeight: number; scrollTop: number; firstKey: string | null } | null>(null);
+  const loadOlderRef = useRef(onLoadOlderMessages);
+  const mergedItemsRef = useRef<TimelineItem[]>([]);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const draftRef = useRef(''); // unsent text put aside while editing
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  // Clock for the edit window, so edit actions disappear once it closes
+  const [now, setNow] = useState(() => Date.now());
+  const {
+    attachments,
+    rejections,
+    isSending: isSendingAttachments,
+    addFiles,
+    removeAttachment,
+    setCaption,
+    dismissRejections,
+    sendAll,
+  } = useAttachments();
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const dragDepthRef = useRef(0); // dragenter/dragleave fire for every child element
 
   // Merge messages and call history, sorted by timestamp
   const mergedItems = useMemo(() => {
-    const items: Array<{ type: 'message' | 'call'; data: Message | Call; timestamp: Date }> = [];
+    const items: TimelineItem[] = [];
+
+    // While older pages are unloaded, hide calls from before the oldest loaded
+    // message - they'd otherwise sit above messages that haven't arrived yet
+    const oldestLoaded = hasMoreMessages && messages.length > 0
+      ? new Date(messages[0].createdAt).getTime()
+      : -Infinity;
 
     // Add messages
     messages.forEach(msg => {
@@ -49,9 +132,12 @@ export default function ChatWindow({
       });
     });
 
-    // Add calls
+    // Add calls (once each - list items need unique keys)
+    const seenCallIds = new Set<string>();
     callHistory.forEach(call => {
       const timestamp = call.endedAt || call.startedAt || call.createdAt;
+      if (seenCallIds.has(call.id) || new Date(timestamp).getTime() < oldestLoaded) return;
+      seenCallIds.add(call.id);
       items.push({
         type: 'call',
         data: call,
@@ -70,68 +156,272 @@ export default function ChatWindow({
     });
 
     return sorted;
-  }, [messages, callHistory]);
+  }, [messages, callHistory, hasMoreMessages]);
+
+  const { virtualItems, paddingTop, paddingBottom, measureElement, scrollToBottom } = useVirtualList({
+    items: mergedItems,
+    getKey: getTimelineKey,
+    estimateSize: estimateTimelineItemSize,
+    scrollRef: scrollContainerRef,
+    listRef,
+  });
 
-  // Auto-scroll to bottom when new messages or calls arrive
+  // New items at the end stick to the bottom only if we were already there
+  // (handled by useVirtualList); opening a chat or sending a message always
+  // jumps to the bottom
   useEffect(() => {
+    const lastItem = mergedItems[mergedItems.length - 1];
+    const lastKey = getItemKey(lastItem);
+    if (lastKey === lastItemKeyRef.current) return;
+
+    const chatId = messages[0]?.chatId || null;
+    const isNewChat = chatId !== chatIdRef.current || lastItemKeyRef.current === null;
+    const isOwnMessage = lastItem?.type === 'message' && (lastItem.data as Message).senderId === currentUserId;
+    chatIdRef.current = chatId;
+    lastItemKeyRef.current = lastKey;
+
     console.log('🖥️ [CHATWINDOW] Items updated:', {
       messagesCount: messages.length,
       callsCount: callHistory.length,
       totalItems: mergedItems.length,
       timestamp: new Date().toISOString(),
     });
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, callHistory, mergedItems.length]);
+    if (isNewChat || isOwnMessage) {
+      scrollToBottom(isNewChat ? 'auto' : 'smooth');
+    }
+  }, [messages, callHistory, mergedItems, currentUserId, scrollToBottom]);
+
+  // Keep the visible messages in place when an older page is prepended
+  useLayoutEffect(() => {
+    const anchor = scrollAnchorRef.current;
+    const container = scrollContainerRef.current;
+    if (anchor && container && getItemKey(mergedItems[0]) !== anchor.firstKey) {
+      container.scrollTop = anchor.scrollTop + (container.scrollHeight - anchor.scrollHeight);
+      scrollAnchorRef.current = null;
+    }
+    if (!isLoadingOlderMessages) {
+      scrollAnchorRef.current = null;
+    }
+  }, [mergedItems, isLoadingOlderMessages]);
+
+  useEffect(() => {
+    loadOlderRef.current = onLoadOlderMessages;
+    mergedItemsRef.current = mergedItems;
+  }, [onLoadOlderMessages, mergedItems]);
+
+  // Request the previous page when the top of the list scrolls into view
+  // Only re-observed when hasMoreMessages changes, so a failed load isn't
+  // retried in a loop - scrolling away and back retries it
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    const sentinel = topSentinelRef.current;
+    if (!hasMoreMessages || !container || !sentinel) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (!entry.isIntersecting || !loadOlderRef.current) return;
+        scrollAnchorRef.current = {
+          scrollHeight: container.scrollHeight,
+          scrollTop: container.scrollTop,
+          firstKey: getItemKey(mergedItemsRef.current[0]),
+        };
+        loadOlderRef.current();
+      },
+      { root: container, rootMargin: '200px 0px 0px 0px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMoreMessages]);
+
+  useEffect(() => {
+    if (!onEditMessage) return;
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, [onEditMessage]);
+
+  const handleStartEdit = (message: Message) => {
+    if (!editingMessage) {
+      draftRef.current = inputValue;
+    }
+    setEditingMessage(message);
+    setInputValue(message.content);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessage(null);
+    setInputValue(draftRef.current);
+    draftRef.current = '';
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingMessage || !onEditMessage) return;
+
+    const content = inputValue.trim();
+    if (content === editingMessage.content) {
+      handleCancelEdit();
+      return;
+    }
+
+    setIsSavingEdit(true);
+    try {
+      // On failure the caller shows the error and the edit stays open
+      if (await onEditMessage(editingMessage.id, content)) {
+        handleCancelEdit();
+      }
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
+  const handleDelete = async (message: Message, deleteForEveryone: boolean) => {
+    if (!onDeleteMessage) return false;
+
+    const deleted = await onDeleteMessage(message, deleteForEveryone);
+    if (deleted && editingMessage?.id === message.id) {
+      handleCancelEdit();
+    }
+    return deleted;
+  };
 
   const handleSend = () => {
-    if (inputValue.trim() && !disabled) {
-      onSendMessage(inputValue.trim());
-      setInputValue('');
+    if (!inputValue.trim() || disabled) return;
+
+    if (editingMessage) {
+      handleSaveEdit();
+      return;
+    }
+    onSendMessage(inputValue.trim());
+    setInputValue('');
+  };
+
+  const handleSendAttachments = () => {
+    if (onSendAttachment && !disabled) {
+      sendAll(onSendAttachment);
+    }
+  };
+
+  // Drag-and-drop of files onto the chat window
+  const hasDraggedFiles = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!onSendAttachment || !hasDraggedFiles(e)) return;
+    e.preventDefault();
+    dragDepthRef.current++;
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!onSendAttachment || !hasDraggedFiles(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!onSendAttachment || !hasDraggedFiles(e)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) {
+      setIsDraggingFiles(false);
     }
   };
 
+  const handleDrop = (e: React.DragEvent) => {
+    if (!onSendAttachment || !hasDraggedFiles(e)) return;
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDraggingFiles(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const renderMessage = (message: Message) => (
+    <MessageBubble
+      message={message}
+      isSent={message.senderId === currentUserId}
+      otherUserName={otherUserName}
+      isEditing={editingMessage?.id === message.id}
+      onEdit={
+        onEditMessage && canEditMessage(message, currentUserId, now)
+          ? handleStartEdit
+          : undefined
+      }
+      onDelete={onDeleteMessage && !message.sendState ? handleDelete : undefined}
+      canDeleteForEveryone={message.senderId === currentUserId && !message.isDeleted}
+      onRetry={onRetryMessage}
+      onDiscard={onDiscardMessage}
+    />
+  );
+
+  const renderCall = (call: Call) => (
+    <CallHistoryEntry
+      call={call}
+      currentUserId={currentUserId}
+      otherUserName={otherUserName}
+    />
+  );
+
   return (
-    <div className="flex flex-col h-full">
+    <div
+      className="relative flex flex-col h-full"
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {/* Drop overlay */}
+      {isDraggingFiles && (
+        <div className="absolute inset-0 z-40 flex items-center justify-center bg-blue-900/60 border-2 border-dashed border-blue-400 rounded pointer-events-none">
+          <span className="text-white text-lg font-semibold">Drop files to attach</span>
+        </div>
+      )}
+
       {/* Messages area */}
-      <div className="flex-1 overflow-y-auto p-4 bg-gray-900">
+      <div ref={scrollContainerRef} className="relative flex-1 overflow-y-auto p-4 bg-gray-900">
+        {onLoadOlderMessages && mergedItems.length > 0 && (
+          <div ref={topSentinelRef} className="h-8 flex items-center justify-center text-xs text-gray-500">
+            {isLoadingOlderMessages
+              ? 'Loading older messages...'
+              : hasMoreMessages
+                ? ''
+                : 'Beginning of conversation'}
+          </div>
+        )}
         {mergedItems.length === 0 ? (
           <div className="text-center text-gray-400 mt-8">
             No messages yet. Start the conversation!
           </div>
         ) : (
-          mergedItems.map((item, index) => {
-            if (item.type === 'message') {
-              const message = item.data as Message;
-              return (
-                <MessageBubble
-                  key={`msg-${message.id}`}
-                  message={message}
-                  isSent={message.senderId === currentUserId}
-                  otherUserName={otherUserName}
-                />
-              );
-            } else {
-              const call = item.data as Call;
-              return (
-                <CallHistoryEntry
-                  key={`call-${call.id}-${index}`}
-                  call={call}
-                  currentUserId={currentUserId}
-                  otherUserName={otherUserName}
-                />
-              );
-            }
-          })
+          <div ref={listRef} style={{ paddingTop, paddingBottom }}>
+            {virtualItems.map(({ item, key }) => (
+              // flow-root keeps children's margins inside the measured height
+              <div key={key} data-key={key} ref={measureElement} className="flow-root">
+                {item.type === 'message' ? renderMessage(item.data as Message) : renderCall(item.data as Call)}
+              </div>
+            ))}
+          </div>
         )}
-        <div ref={messagesEndRef} />
       </div>
 
+      {/* Staged attachments */}
+      <AttachmentTray
+        attachments={attachments}
+        rejections={rejections}
+        isSending={isSendingAttachments}
+        disabled={disabled}
+        onCaptionChange={setCaption}
+        onRemove={removeAttachment}
+        onSend={handleSendAttachments}
+        onDismissRejections={dismissRejections}
+      />
+
       {/* Input area */}
       <InputBox
         value={inputValue}
         onChange={setInputValue}
         onSend={handleSend}
-        disabled={disabled}
+        onSendVoiceNote={onSendVoiceNote}
+        onAddFiles={onSendAttachment ? addFiles : undefined}
+        isEditing={!!editingMessage}
+        onCancelEdit={handleCancelEdit}
+        disabled={disabled || isSavingEdit}
       />
     </div>
   );
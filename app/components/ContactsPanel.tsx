@@ -0,0 +1,208 @@
+/**
+ * ContactsPanel Component
+ *
+ * Sidebar section for contact sync:
+ * - Import contacts from a pasted list, CSV or vCard file
+ * - Sync hashed phone numbers with the backend
+ * - Show which contacts are registered and start a chat with them
+ */
+
+'use client';
+
+import { useState } from 'react';
+import {
+  Contact,
+  ImportedContact,
+  getContacts,
+  normalizePhone,
+  parseContactList,
+  parseContactsFile,
+  syncContacts,
+} from '../api/contacts';
+import { getErrorMessage } from '../api/errors';
+
+interface ContactsPanelProps {
+  token: string;
+  onStartChat: (userId: string) => void;
+}
+
+interface ContactRow {
+  key: string;
+  name?: string;
+  phone: string;
+  user?: Contact; // set when the phone number is registered
+}
+
+export default function ContactsPanel({ token, onStartChat }: ContactsPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [pasteText, setPasteText] = useState('');
+  const [imported, setImported] = useState<ImportedContact[]>([]);
+  const [registered, setRegistered] = useState<Contact[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [contactsError, setContactsError] = useState<string | null>(null);
+
+  /**
+   * Load registered contacts the first time the section is opened
+   * (a failed load is tried again the next time it opens)
+   */
+  const handleToggle = async () => {
+    const nextExpanded = !isExpanded;
+    setIsExpanded(nextExpanded);
+
+    if (nextExpanded && !hasLoaded) {
+      setHasLoaded(true);
+      setContactsError(null);
+      try {
+        setRegistered(await getContacts(token));
+      } catch (error) {
+        console.error('Failed to load contacts:', error);
+        setHasLoaded(false);
+        setContactsError(getErrorMessage(error, 'Failed to load contacts'));
+      }
+    }
+  };
+
+  /**
+   * Merge newly imported contacts into the list and sync them
+   */
+  const importAndSync = async (contacts: ImportedContact[]) => {
+    if (contacts.length === 0) {
+      setContactsError('No phone numbers found');
+      return;
+    }
+
+    const merged = [...imported];
+    contacts.forEach((contact) => {
+      if (!merged.some((c) => c.phone === contact.phone)) {
+        merged.push(contact);
+      }
+    });
+    setImported(merged);
+
+    try {
+      setIsSyncing(true);
+      setContactsError(null);
+      const matches = await syncContacts(token, merged.map((c) => c.phone));
+      setRegistered((prev) => {
+        const byId = new Map(prev.map((c) => [c.id, c]));
+        matches.forEach((c) => byId.set(c.id, c));
+        return Array.from(byId.values());
+      });
+    } catch (error) {
+      console.error('Failed to sync contacts:', error);
+      setContactsError(getErrorMessage(error, 'Failed to sync contacts'));
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleSyncPasted = async () => {
+    const contacts = parseContactList(pasteText);
+    await importAndSync(contacts);
+    if (contacts.length > 0) {
+      setPasteText('');
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow re-selecting the same file
+    if (!file) return;
+
+    try {
+      await importAndSync(await parseContactsFile(file));
+    } catch (error) {
+      console.error('Failed to read contacts file:', error);
+      setContactsError(getErrorMessage(error, 'Failed to read contacts file'));
+    }
+  };
+
+  // Imported contacts first (with registration status), then registered-only contacts
+  const rows: ContactRow[] = imported.map((contact) => ({
+    key: contact.phone,
+    name: contact.name,
+    phone: contact.phone,
+    user: registered.find((user) => normalizePhone(user.phone) === contact.phone),
+  }));
+  registered.forEach((user) => {
+    if (!rows.some((row) => row.user?.id === user.id)) {
+      rows.push({ key: user.id, name: user.username, phone: user.phone, user });
+    }
+  });
+
+  return (
+    <div className="border-b border-gray-700">
+      <button
+        onClick={handleToggle}
+        className="w-full flex items-center justify-between p-2 text-xs text-gray-400 font-semibold hover:bg-gray-700 transition-colors"
+      >
+        <span>Contacts</span>
+        <span>{isExpanded ? '▾' : '▸'}</span>
+      </button>
+
+      {isExpanded && (
+        <div className="p-2 space-y-2">
+          <textarea
+            value={pasteText}
+            onChange={(e) => setPasteText(e.target.value)}
+            placeholder={'Paste numbers, one per line\ne.g. Alice, +1234567890'}
+            rows={3}
+            className="w-full px-2 py-1 border border-gray-600 rounded bg-gray-700 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 text-xs"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={handleSyncPasted}
+              disabled={isSyncing || !pasteText.trim()}
+              className="flex-1 px-2 py-1 bg-blue-600 text-white text-xs rounded hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+            >
+              {isSyncing ? 'Syncing...' : 'Sync'}
+            </button>
+            <label className="flex-1 px-2 py-1 bg-gray-700 text-gray-200 text-xs rounded hover:bg-gray-600 transition-colors text-center cursor-pointer">
+              Import file
+              <input
+                type="file"
+                accept=".csv,.vcf,.vcard,.txt,text/csv,text/vcard,text/plain"
+                onChange={handleFileSelected}
+                className="hidden"
+              />
+            </label>
+          </div>
+
+          {contactsError && <div className="text-red-400 text-xs">{contactsError}</div>}
+
+          {rows.length === 0 ? (
+            <div className="text-center text-gray-500 text-xs py-2">
+              No contacts yet
+            </div>
+          ) : (
+            <div className="max-h-48 overflow-y-auto">
+              {rows.map((row) => (
+                <div
+                  key={row.key}
+                  className="flex items-center justify-between gap-2 py-1.5 border-b border-gray-700/50 last:border-b-0"
+                >
+                  <div className="min-w-0">
+                    <div className="text-sm text-white truncate">{row.name || row.phone}</div>
+                    {row.name && <div className="text-xs text-gray-400 truncate">{row.phone}</div>}
+                  </div>
+                  {row.user ? (
+                    <button
+                      onClick={() => row.user && onStartChat(row.user.id)}
+                      className="shrink-0 px-2 py-0.5 bg-green-600 text-white text-xs rounded hover:bg-green-700 transition-colors"
+                      title="Start chat"
+                    >
+                      Chat
+                    </button>
+                  ) : (
+                    <span className="shrink-0 text-xs text-gray-500">Not registered</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * HighlightedText Component
+ *
+ * Renders text with the first case-insensitive match of a query highlighted.
+ * Used by user search results to show which part of the phone or username matched.
+ */
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+}
+
+export default function HighlightedText({ text, query }: HighlightedTextProps) {
+  const trimmedQuery = query.trim();
+  const matchIndex = trimmedQuery ? text.toLowerCase().indexOf(trimmedQuery.toLowerCase()) : -1;
+
+  if (matchIndex < 0) {
+    return <>{text}</>;
+  }
+
+  const matchEnd = matchIndex + trimmedQuery.length;
+
+  return (
+    <>
+      {text.slice(0, matchIndex)}
+      <mark className="bg-yellow-500/40 text-inherit rounded-sm">
+        {text.slice(matchIndex, matchEnd)}
+      </mark>
+      {text.slice(matchEnd)}
+    </>
+  );
+}
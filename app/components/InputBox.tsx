@@ -3,48 +3,223 @@
  *
  * Message input with send button.
  * Handles text input and triggers send action.
+ * Optionally records voice notes (record → preview → send or discard)
+ * and hands pasted or picked files to the attachment tray.
+ * In edit mode the input holds an existing message and Send saves the edit.
  */
 
+'use client';
+
+import { useRef, useState } from 'react';
+import { useVoiceRecorder } from '../hooks/useVoiceRecorder';
+import { useMicLevel } from '../hooks/useMicLevel';
+
 interface InputBoxProps {
   value: string;
   onChange: (value: string) => void;
   onSend: () => void;
+  onSendVoiceNote?: (file: File, duration: number) => Promise<void>; // enables the mic button
+  onAddFiles?: (files: File[]) => void; // enables paste and the attach button
+  isEditing?: boolean;
+  onCancelEdit?: () => void;
   disabled?: boolean;
   placeholder?: string;
 }
 
+const formatElapsed = (seconds: number): string => {
+  const total = Math.floor(seconds);
+  const mins = Math.floor(total / 60);
+  const secs = total % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
 export default function InputBox({
   value,
   onChange,
   onSend,
+  onSendVoiceNote,
+  onAddFiles,
+  isEditing = false,
+  onCancelEdit,
   disabled = false,
   placeholder = 'Type a message...',
 }: InputBoxProps) {
-  const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
+  const recorder = useVoiceRecorder();
+  const micLevel = useMicLevel(recorder.stream);
+  const [isSendingVoiceNote, setIsSendingVoiceNote] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter' && !e.shiftKey && !disabled) {
       e.preventDefault();
       onSend();
+    } else if (e.key === 'Escape' && isEditing) {
+      e.preventDefault();
+      onCancelEdit?.();
+    }
+  };
+
+  // Pasted files (e.g. screenshots) go to the attachment tray instead of the text input
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    if (!onAddFiles || isEditing) return;
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      onAddFiles(files);
     }
   };
 
+  const handleFilesPicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = ''; // allow picking the same file again
+    if (files.length > 0) {
+      onAddFiles?.(files);
+    }
+  };
+
+  const handleSendVoiceNote = async () => {
+    if (!recorder.clip || !onSendVoiceNote) return;
+
+    try {
+      setIsSendingVoiceNote(true);
+      await onSendVoiceNote(recorder.clip.file, recorder.clip.duration);
+      recorder.cancel(); // clip sent - clear the preview
+    } catch (error) {
+      // Keep the preview so the user can retry; the caller shows the error
+      console.error('Failed to send voice note:', error);
+    } finally {
+      setIsSendingVoiceNote(false);
+    }
+  };
+
+  // Recording in progress
+  if (recorder.status === 'recording') {
+    return (
+      <div className="flex items-center gap-3 p-2 border-t border-gray-700 bg-gray-800">
+        <button
+          onClick={recorder.cancel}
+          className="px-3 py-2 text-gray-300 rounded-lg hover:bg-gray-700 transition-colors"
+          title="Cancel recording"
+        >
+          ✕
+        </button>
+        <div className="flex items-center gap-2 flex-1">
+          <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
+          <span className="text-sm text-white font-mono">{formatElapsed(recorder.elapsed)}</span>
+          {/* Mic level */}
+          <div className="flex items-center gap-1 h-5">
+            {[...Array(5)].map((_, i) => {
+              const barHeight = micLevel > i * 20 ? Math.min(20, (micLevel - i * 20) * 1.5) : 2;
+              return (
+                <div
+                  key={i}
+                  className="w-1 bg-red-500 rounded-full transition-all duration-100"
+                  style={{
+                    height: `${barHeight}px`,
+                    minHeight: '2px',
+                  }}
+                />
+              );
+            })}
+          </div>
+        </div>
+        <button
+          onClick={recorder.stop}
+          className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+          title="Stop recording"
+        >
+          ■ Stop
+        </button>
+      </div>
+    );
+  }
+
+  // Recorded clip waiting to be sent or discarded
+  if (recorder.status === 'preview' && recorder.clip) {
+    return (
+      <div className="flex items-center gap-2 p-2 border-t border-gray-700 bg-gray-800">
+        <button
+          onClick={recorder.cancel}
+          disabled={isSendingVoiceNote}
+          className="px-3 py-2 text-gray-300 rounded-lg hover:bg-gray-700 disabled:text-gray-600 transition-colors"
+          title="Discard voice note"
+        >
+          🗑
+        </button>
+        <audio src={recorder.clip.url} controls className="flex-1 h-9 min-w-0" />
+        <span className="text-xs text-gray-400 font-mono">{formatElapsed(recorder.clip.duration)}</span>
+        <button
+          onClick={handleSendVoiceNote}
+          disabled={disabled || isSendingVoiceNote}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+        >
+          {isSendingVoiceNote ? 'Sending...' : 'Send'}
+        </button>
+      </div>
+    );
+  }
+
   return (
-    <div className="flex gap-2 p-2 border-t border-gray-700 bg-gray-800">
-      <input
-        type="text"
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        onKeyPress={handleKeyPress}
-        disabled={disabled}
-        placeholder={placeholder}
-        className="flex-1 px-3 py-2 border border-gray-600 rounded-lg bg-gray-700 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-800 disabled:text-gray-500"
-      />
-      <button
-        onClick={onSend}
-        disabled={disabled || !value.trim()}
-        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
-      >
-        Send
-      </button>
+    <div className="border-t border-gray-700 bg-gray-800">
+      {recorder.recorderError && (
+        <div className="px-3 pt-2 text-xs text-red-400">{recorder.recorderError}</div>
+      )}
+      {isEditing && (
+        <div className="flex items-center justify-between px-3 pt-2 text-xs text-yellow-300">
+          <span>✎ Editing message · Esc to cancel</span>
+          <button onClick={onCancelEdit} className="text-gray-400 hover:text-white" title="Cancel edit">
+            ✕
+          </button>
+        </div>
+      )}
+      <div className="flex gap-2 p-2">
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          disabled={disabled}
+          placeholder={placeholder}
+          className="flex-1 px-3 py-2 border border-gray-600 rounded-lg bg-gray-700 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-800 disabled:text-gray-500"
+        />
+        {onAddFiles && !isEditing && (
+          <>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled}
+              className="px-3 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-600 disabled:cursor-not-allowed transition-colors"
+              title="Attach files"
+            >
+              📎
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              onChange={handleFilesPicked}
+              className="hidden"
+            />
+          </>
+        )}
+        {onSendVoiceNote && !isEditing && (
+          <button
+            onClick={recorder.start}
+            disabled={disabled}
+            className="px-3 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-600 disabled:cursor-not-allowed transition-colors"
+            title="Record voice note"
+          >
+            🎤
+          </button>
+        )}
+        <button
+          onClick={onSend}
+          disabled={disabled || !value.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+        >
+          {isEditing ? 'Save' : 'Send'}
+        </button>
+      </div>
     </div>
   );
 }
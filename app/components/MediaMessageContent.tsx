@@ -0,0 +1,177 @@
+/**
+ * MediaMessageContent Component
+ *
+ * Renders the body of a non-text message:
+ * - image: thumbnail that opens a lightbox
+ * - video: inline player
+ * - voice: audio player with duration
+ * - file: card with name, size and download link
+ *
+ * Captions are shown below the media.
+ * Falls back to plain text when the content is not a media attachment.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { MediaAttachment, parseMediaContent } from '../api/media';
+import { MessageType } from '../api/messages';
+
+interface MediaMessageContentProps {
+  type: MessageType;
+  content: string;
+}
+
+const formatFileSize = (bytes: number): string => {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatDuration = (seconds?: number): string => {
+  if (seconds === undefined || !Number.isFinite(seconds)) return '';
+  const total = Math.round(seconds);
+  const mins = Math.floor(total / 60);
+  const secs = total % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+function ImageContent({ attachment }: { attachment: MediaAttachment }) {
+  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
+
+  return (
+    <>
+      <button
+        onClick={() => setIsLightboxOpen(true)}
+        className="block rounded overflow-hidden focus:outline-none focus:ring-2 focus:ring-blue-400"
+        title="View image"
+      >
+        {/* eslint-disable-next-line @next/next/no-img-element -- media URLs come from the API host */}
+        <img
+          src={attachment.thumbnailUrl || attachment.url}
+          alt={attachment.name}
+          loading="lazy"
+          // Known dimensions reserve the space before the image loads
+          width={attachment.width}
+          height={attachment.height}
+          className="max-h-60 max-w-full h-auto object-cover"
+        />
+      </button>
+
+      {isLightboxOpen && (
+        <div
+          role="dialog"
+          aria-label={attachment.name}
+          tabIndex={-1}
+          autoFocus
+          onClick={() => setIsLightboxOpen(false)}
+          onKeyDown={(e) => e.key === 'Escape' && setIsLightboxOpen(false)}
+          className="fixed inset-0 z-[100] flex items-center justify-center bg-black/90 p-4 cursor-zoom-out"
+        >
+          {/* eslint-disable-next-line @next/next/no-img-element -- media URLs come from the API host */}
+          <img
+            src={attachment.url}
+            alt={attachment.name}
+            className="max-h-full max-w-full object-contain"
+          />
+          <button
+            onClick={() => setIsLightboxOpen(false)}
+            className="absolute top-4 right-4 w-8 h-8 text-white text-lg rounded hover:bg-white/20 transition-colors"
+            title="Close"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
+
+function VideoContent({ attachment }: { attachment: MediaAttachment }) {
+  return (
+    <video
+      src={attachment.url}
+      poster={attachment.thumbnailUrl}
+      controls
+      preload="metadata"
+      className="max-h-72 max-w-full rounded"
+    />
+  );
+}
+
+function VoiceContent({ attachment }: { attachment: MediaAttachment }) {
+  // Recorded webm clips often report Infinity until played, so prefer the stored duration
+  const [loadedDuration, setLoadedDuration] = useState<number | undefined>(undefined);
+  const duration = attachment.duration ?? loadedDuration;
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-lg">🎤</span>
+      <audio
+        src={attachment.url}
+        controls
+        preload="metadata"
+        onLoadedMetadata={(e) => setLoadedDuration(e.currentTarget.duration)}
+        className="h-8 max-w-[220px]"
+      />
+      {formatDuration(duration) && (
+        <span className="text-xs opacity-80 font-mono">{formatDuration(duration)}</span>
+      )}
+    </div>
+  );
+}
+
+function FileContent({ attachment }: { attachment: MediaAttachment }) {
+  return (
+    <a
+      href={attachment.url}
+      download={attachment.name}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center gap-3 p-2 rounded bg-black/20 hover:bg-black/30 transition-colors"
+      title="Download"
+    >
+      <span className="text-2xl">📎</span>
+      <div className="min-w-0">
+        <div className="text-sm font-medium truncate">{attachment.name}</div>
+        <div className="text-xs opacity-70">
+          {[formatFileSize(attachment.size), 'Download'].filter(Boolean).join(' • ')}
+        </div>
+      </div>
+    </a>
+  );
+}
+
+function AttachmentContent({ type, attachment }: { type: MessageType; attachment: MediaAttachment }) {
+  switch (type) {
+    case 'image':
+      return <ImageContent attachment={attachment} />;
+    case 'video':
+      return <VideoContent attachment={attachment} />;
+    case 'voice':
+      return <VoiceContent attachment={attachment} />;
+    case 'file':
+      return <FileContent attachment={attachment} />;
+    default:
+      // Unknown type from a newer backend - show it as a downloadable file
+      return <FileContent attachment={attachment} />;
+  }
+}
+
+export default function MediaMessageContent({ type, content }: MediaMessageContentProps) {
+  const attachment = type === 'text' ? null : parseMediaContent(content);
+
+  if (!attachment) {
+    return <div className="text-sm break-words">{content}</div>;
+  }
+
+  return (
+    <>
+      <AttachmentContent type={type} attachment={attachment} />
+      {attachment.caption && (
+        <div className="text-sm break-words mt-1">{attachment.caption}</div>
+      )}
+    </>
+  );
+}
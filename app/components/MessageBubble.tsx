@@ -3,23 +3,74 @@
  *
  * Displays a single message with:
  * - Visual differentiation for sent vs received
- * - Timestamp
- * - Delivery/read status indicators
+ * - Type-specific content (text, image, video, voice, file)
+ * - Timestamp and "edited" marker
+ * - Delivery/read status indicators (🕒 while sending, 📤 while queued offline)
+ * - Failed sends in red with retry and discard actions; queued sends can be
+ *   sent now or discarded
+ * - Context menu (right-click or ⋯) to edit or delete, with confirmation
+ * - Tombstone for messages deleted for everyone
  */
 
-import { Message } from '../api/messages';
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { DELETED_MESSAGE_TEXT, Message, isMessageEdited } from '../api/messages';
+import MediaMessageContent from './MediaMessageContent';
 
 interface MessageBubbleProps {
   message: Message;
   isSent: boolean; // true if sent by current user, false if received
   otherUserName?: string;
+  isEditing?: boolean; // message is being edited in the input box
+  onEdit?: (message: Message) => void; // set only while the message is editable
+  onDelete?: (message: Message, deleteForEveryone: boolean) => Promise<boolean>;
+  canDeleteForEveryone?: boolean;
+  onRetry?: (message: Message) => void; // for failed and queued sends
+  onDiscard?: (message: Message) => void;
 }
 
+type MenuState = 'closed' | 'open' | 'confirm-me' | 'confirm-everyone';
+
 export default function MessageBubble({
   message,
   isSent,
   otherUserName,
+  isEditing = false,
+  onEdit,
+  onDelete,
+  canDeleteForEveryone = false,
+  onRetry,
+  onDiscard,
 }: MessageBubbleProps) {
+  const [menu, setMenu] = useState<MenuState>('closed');
+  const [isDeleting, setIsDeleting] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const hasActions = !!onEdit || !!onDelete;
+
+  // Close the menu on outside click or Escape
+  useEffect(() => {
+    if (menu === 'closed') return;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) {
+        setMenu('closed');
+      }
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setMenu('closed');
+      }
+    };
+
+    document.addEventListener('mousedown', handleMouseDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [menu]);
+
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleTimeString('en-US', {
@@ -28,36 +79,189 @@ export default function MessageBubble({
     });
   };
 
+  const handleContextMenu = (e: React.MouseEvent) => {
+    if (!hasActions) return;
+    e.preventDefault();
+    setMenu('open');
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!onDelete) return;
+
+    setIsDeleting(true);
+    try {
+      // On failure the caller shows the error; keep the menu open to retry
+      if (await onDelete(message, menu === 'confirm-everyone')) {
+        setMenu('closed');
+      }
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const menuItemClass = 'block w-full px-3 py-1.5 text-left text-sm hover:bg-gray-700 disabled:text-gray-500';
+
+  const actions = hasActions && (
+    <div ref={menuRef} className="relative self-center">
+      <button
+        onClick={() => setMenu(menu === 'closed' ? 'open' : 'closed')}
+        className={`${
+          menu === 'closed' ? 'opacity-0' : 'opacity-100'
+        } group-hover:opacity-100 focus:opacity-100 px-1.5 py-0.5 text-xs text-gray-400 rounded hover:bg-gray-700 hover:text-white transition-opacity`}
+        title="Message actions"
+      >
+        ⋯
+      </button>
+
+      {menu !== 'closed' && (
+        <div
+          className={`absolute z-30 bottom-full mb-1 w-48 py-1 bg-gray-800 border border-gray-600 rounded shadow-lg text-gray-100 ${
+            isSent ? 'right-0' : 'left-0'
+          }`}
+        >
+          {menu === 'open' ? (
+            <>
+              {onEdit && (
+                <button
+                  onClick={() => {
+                    setMenu('closed');
+                    onEdit(message);
+                  }}
+                  className={menuItemClass}
+                >
+                  ✎ Edit
+                </button>
+              )}
+              {onDelete && (
+                <button onClick={() => setMenu('confirm-me')} className={menuItemClass}>
+                  🗑 Delete for me
+                </button>
+              )}
+              {onDelete && canDeleteForEveryone && (
+                <button onClick={() => setMenu('confirm-everyone')} className={`${menuItemClass} text-red-400`}>
+                  🗑 Delete for everyone
+                </button>
+              )}
+            </>
+          ) : (
+            <div className="px-3 py-1.5 space-y-2">
+              <div className="text-sm">
+                {menu === 'confirm-everyone'
+                  ? 'Delete this message for everyone?'
+                  : 'Delete this message for you?'}
+              </div>
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setMenu('open')}
+                  disabled={isDeleting}
+                  className="px-2 py-1 text-xs rounded hover:bg-gray-700"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleConfirmDelete}
+                  disabled={isDeleting}
+                  className="px-2 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700 disabled:bg-gray-600"
+                >
+                  {isDeleting ? 'Deleting...' : 'Delete'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div
-      className={`flex mb-2 ${isSent ? 'justify-end' : 'justify-start'}`}
+      className={`group flex gap-1 mb-2 ${isSent ? 'justify-end' : 'justify-start'}`}
     >
+      {isSent && actions}
       <div
+        onContextMenu={handleContextMenu}
         className={`max-w-[70%] rounded-lg px-3 py-2 ${
-          isSent
-            ? 'bg-blue-600 text-white'
-            : 'bg-gray-700 text-gray-100'
-        }`}
+          message.sendState === 'failed'
+            ? 'bg-red-800 text-white'
+            : isSent
+              ? 'bg-blue-600 text-white'
+              : 'bg-gray-700 text-gray-100'
+        } ${message.sendState === 'pending' || message.sendState === 'queued' ? 'opacity-80' : ''} ${isEditing ? 'ring-2 ring-yellow-400' : ''} ${message.isDeleted ? 'opacity-70' : ''}`}
       >
         {!isSent && otherUserName && (
           <div className="text-xs font-semibold mb-1 opacity-80 text-gray-300">
             {otherUserName}
           </div>
         )}
-        <div className="text-sm">{message.content}</div>
+        {message.isDeleted ? (
+          <div className="italic text-sm">🚫 {DELETED_MESSAGE_TEXT}</div>
+        ) : (
+          <MediaMessageContent type={message.type} content={message.content} />
+        )}
         <div
           className={`text-xs mt-1 flex items-center gap-1 ${
             isSent ? 'text-blue-200' : 'text-gray-400'
           }`}
         >
+          {!message.isDeleted && isMessageEdited(message) && (
+            <span className="italic" title={`Edited ${formatTime(message.updatedAt!)}`}>
+              edited
+            </span>
+          )}
           <span>{formatTime(message.createdAt)}</span>
-          {isSent && (
-            <span className="ml-1">
-              {message.isRead ? '✓✓' : message.isDelivered ? '✓' : ''}
+          {isSent && !message.isDeleted && (
+            <span
+              className="ml-1"
+              title={
+                message.sendState === 'pending'
+                  ? 'Sending...'
+                  : message.sendState === 'queued'
+                    ? 'Queued - will be sent when back online'
+                    : undefined
+              }
+            >
+              {message.sendState === 'pending'
+                ? '🕒'
+                : message.sendState === 'queued'
+                  ? '📤'
+                  : message.sendState === 'failed'
+                    ? '⚠️'
+                    : message.isRead ? '✓✓' : message.isDelivered ? '✓' : ''}
             </span>
           )}
         </div>
+        {message.sendState === 'failed' && (
+          <div className="mt-1 flex items-center gap-2 text-xs text-red-200">
+            <span>Not sent</span>
+            {onRetry && (
+              <button onClick={() => onRetry(message)} className="underline hover:text-white">
+                Retry
+              </button>
+            )}
+            {onDiscard && (
+              <button onClick={() => onDiscard(message)} className="underline hover:text-white">
+                Discard
+              </button>
+            )}
+          </div>
+        )}
+        {message.sendState === 'queued' && (
+          <div className="mt-1 flex items-center gap-2 text-xs text-blue-200">
+            <span>Waiting to send</span>
+            {onRetry && (
+              <button onClick={() => onRetry(message)} className="underline hover:text-white">
+                Send now
+              </button>
+            )}
+            {onDiscard && (
+              <button onClick={() => onDiscard(message)} className="underline hover:text-white">
+                Discard
+              </button>
+            )}
+          </div>
+        )}
       </div>
+      {!isSent && actions}
     </div>
   );
 }
@@ -1,12 +1,22 @@
 /**
  * Chat Application Component
  *
- * Single-user chat application with:
+ * Chat session pane with:
  * - Authentication (OTP-based)
  * - Multiple chats
  * - Real-time messaging via Socket.IO
+ * - Older messages loaded page by page on scroll
  * - User search
+ * - Contact import and sync
+ * - Media messages and voice notes
+ * - Editing own messages (within 30 minutes)
+ * - Deleting messages for me or for everyone
  * - Message status (read/delivered)
+ * - Automatic teardown when the session expires
+ * - Explicit logout
+ *
+ * Several panes can be mounted side by side (see SplitScreen). Each pane
+ * persists its session under its own storage key and owns its socket and call.
  */
 
 'use client';
@@ -15,17 +25,84 @@ import { useEffect, useState, useCallback, useRef } from 'react';
 import { requestOTP, verifyOTP } from '../api/auth';
 import { getProfile, searchUsers, User } from '../api/users';
 import { getUserChats, createOrGetChat, Chat } from '../api/chats';
-import { getChatMessages, sendMessage, Message } from '../api/messages';
+import {
+  deleteMessage,
+  editMessage,
+  getChatMessages,
+  getMessagesSince,
+  sendMessage,
+  DELETED_MESSAGE_TEXT,
+  MESSAGE_PAGE_SIZE,
+  Message,
+  MessageType,
+} from '../api/messages';
 import { getCallHistory, Call } from '../api/calls';
-import { ChatSocket } from '../sockets/chatSocket';
+import { deleteMedia, getMessagePreview, uploadMedia, UploadMediaOptions } from '../api/media';
+import { ApiError, getErrorMessage, NetworkError } from '../api/errors';
+import { onSessionExpired } from '../api/sessionEvents';
+import { ChatSocket, MessageDeletedEvent, SocketAckTimeoutError } from '../sockets/chatSocket';
 import ChatWindow from './ChatWindow';
+import HighlightedText from './HighlightedText';
+import ContactsPanel from './ContactsPanel';
+import SocketInspector from './SocketInspector';
+import SyncStatusIndicator, { SyncStatus } from './SyncStatusIndicator';
+import TransportSelector, {
+  DEFAULT_MESSAGE_TRANSPORT,
+  MessageTransport,
+  getTransportStorageKey,
+  isMessageTransport,
+} from './TransportSelector';
 import VoiceCallComponent from './VoiceCallComponent';
 import { useVoiceCall } from '../hooks/useVoiceCall';
+import { mergeMessage, useMessageStore } from '../hooks/useMessageStore';
+import { useOutbox } from '../hooks/useOutbox';
+import { InspectorDock, useSocketInspector } from '../hooks/useSocketInspector';
+import { OutboxItem, outboxItemToMessage } from '../storage/outbox';
+import {
+  clearCachedData,
+  getCachedChats,
+  getCachedConversation,
+  putCachedChats,
+  putCachedConversation,
+} from '../storage/cache';
+
+let clientMessageCounter = 0;
+
+const CACHE_WRITE_DELAY_MS = 1000;
+
+// Besides the open chat, catch up on at most this many chats after a reconnect
+const CATCH_UP_CHAT_LIMIT = 5;
+
+// How long an emitted but unacknowledged message may wait for the server's
+// echo before we look it up, and how far server and client clocks may differ
+const UNCONFIRMED_GRACE_MS = 15 * 1000;
+const CLOCK_SKEW_MS = 60 * 1000;
+
+/**
+ * Outcome of a send:
+ * - sent: the server accepted it
+ * - queued: it went to the outbox
+ * - unconfirmed: emitted, but the ack never came - the server may have it
+ * - failed: not sent (marked failed, or removed with discardOnFailure)
+ */
+type SendResult = 'sent' | 'queued' | 'unconfirmed' | 'failed';
+
+// Cache writes are best effort - the app works the same without them
+const logCacheError = (action: string) => (error: unknown) => {
+  console.warn(`⚠️ [COMPONENT] Failed to ${action}:`, error);
+};
 
-export default function ChatApp() {
-  // Session storage key
-  const storageKey = 'chat_session';
+interface ChatAppProps {
+  storageKey?: string; // localStorage key for this pane's session
+  title?: string;
+  onRemove?: () => void; // shows a remove button (split screen)
+}
 
+export default function ChatApp({
+  storageKey = 'chat_session',
+  title = 'Chat App',
+  onRemove,
+}: ChatAppProps) {
   // Authentication state (isolated per session)
   const [phone, setPhone] = useState('');
   const [otp, setOtp] = useState('');
@@ -35,10 +112,28 @@ export default function ChatApp() {
   const [authStep, setAuthStep] = useState<'phone' | 'otp' | 'authenticated'>('phone');
   const [authError, setAuthError] = useState<string | null>(null);
 
+  // How the composer sends messages; kept per pane across logins
+  const transportStorageKey = getTransportStorageKey(storageKey);
+  const [messageTransport, setMessageTransport] = useState<MessageTransport>(DEFAULT_MESSAGE_TRANSPORT);
+
+  const handleTransportChange = useCallback(
+    (transport: MessageTransport) => {
+      console.log('🔀 [COMPONENT] Message transport changed:', { transport });
+      setMessageTransport(transport);
+      localStorage.setItem(transportStorageKey, transport);
+    },
+    [transportStorageKey]
+  );
+
   // Load session from localStorage on mount
   useEffect(() => {
     const restoreSession = async () => {
       try {
+        const savedTransport = localStorage.getItem(transportStorageKey);
+        if (isMessageTransport(savedTransport)) {
+          setMessageTransport(savedTransport);
+        }
+
         const savedSession = localStorage.getItem(storageKey);
         if (savedSession) {
           const session = JSON.parse(savedSession);
@@ -62,7 +157,7 @@ export default function ChatApp() {
     };
 
     restoreSession();
-  }, []); // Only run on mount
+  }, [storageKey, transportStorageKey]); // Only run on mount (storageKey is fixed per pane)
 
   // Save session to localStorage whenever it changes
   useEffect(() => {
@@ -84,7 +179,19 @@ export default function ChatApp() {
   const selectedChatIdRef = useRef<string | null>(null);
   const socketRef = useRef<ChatSocket | null>(null);
   const socketInitializedRef = useRef(false);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const {
+    messages,
+    resetMessages,
+    upsertMessages,
+    confirmSentMessage,
+    addPendingMessage,
+    setMessageSendState,
+    removeMessage,
+    markMessageDeleted,
+    applyReceipt,
+  } = useMessageStore();
+  const [hasMoreMessages, setHasMoreMessages] = useState(false); // older pages exist on the server
+  const [isLoadingOlderMessages, setIsLoadingOlderMessages] = useState(false);
   const [callHistory, setCallHistory] = useState<Call[]>([]);
   const [otherUserName, setOtherUserName] = useState<string | null>(null);
 
@@ -98,14 +205,137 @@ export default function ChatApp() {
   const [searchResults, setSearchResults] = useState<User[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [showSearchResults, setShowSearchResults] = useState(false);
+  const [activeResultIndex, setActiveResultIndex] = useState(0);
+  const searchAbortRef = useRef<AbortController | null>(null);
+  const searchRequestIdRef = useRef(0);
+  const searchResultRefs = useRef<Array<HTMLDivElement | null>>([]);
 
   // Socket connection (isolated per session)
   const [socket, setSocket] = useState<ChatSocket | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('connecting');
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const isCatchingUpRef = useRef(false);
+
+  // Latest values for the reconnect catch-up
+  const chatsRef = useRef<Chat[]>([]);
+  const messagesRef = useRef<Message[]>([]);
+  useEffect(() => {
+    chatsRef.current = chats;
+    messagesRef.current = messages;
+  }, [chats, messages]);
 
   // Request state to prevent duplicate rapid requests
-  const [isSendingMessage, setIsSendingMessage] = useState(false);
+  const sendQueueRef = useRef<Promise<unknown>>(Promise.resolve()); // keeps outgoing messages in order
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
+  // Offline outbox: messages written while offline are queued and flushed
+  // over REST once the network is back (also retried when the socket reconnects)
+  const isOnline = useCallback(() => navigator.onLine, []);
+  const handleOutboxDelivered = useCallback(
+    (item: OutboxItem, message: Message) => {
+      if (selectedChatIdRef.current === item.chatId) {
+        confirmSentMessage(message, item.clientId);
+      }
+    },
+    [confirmSentMessage]
+  );
+  const handleOutboxGaveUp = useCallback(
+    (item: OutboxItem, error: unknown) => {
+      if (selectedChatIdRef.current === item.chatId) {
+        setMessageSendState(item.clientId, 'failed');
+      }
+      setErrorMessage(getErrorMessage(error, 'A queued message could not be sent.'));
+      setTimeout(() => setErrorMessage(null), 5000);
+    },
+    [setMessageSendState]
+  );
+  const handleOutboxSentElsewhere = useCallback(
+    (item: OutboxItem) => {
+      // Another tab or pane sent (or discarded) it; its copy arrives through
+      // the socket or the next load. Only drop our bubble if still unconfirmed.
+      const bubble = messagesRef.current.find((message) => message.id === item.clientId);
+      if (bubble?.sendState) {
+        removeMessage(item.clientId);
+      }
+    },
+    [removeMessage]
+  );
+  const {
+    items: outboxItems,
+    enqueue: queueMessage,
+    flush: flushOutbox,
+    retryNow: retryQueuedMessage,
+    remove: removeQueuedMessage,
+    clear: clearOutbox,
+  } = useOutbox({
+    token,
+    ownerId: userId,
+    isOnline,
+    onDelivered: handleOutboxDelivered,
+    onGaveUp: handleOutboxGaveUp,
+    onSentElsewhere: handleOutboxSentElsewhere,
+  });
+  const outboxItemsRef = useRef<OutboxItem[]>([]);
+  useEffect(() => {
+    outboxItemsRef.current = outboxItems;
+  }, [outboxItems]);
+
+  /**
+   * Replace the open chat's messages, keeping its queued messages at the end
+   */
+  const resetChatMessages = useCallback(
+    (chatId: string, chatMessages: Message[]) => {
+      const queued = outboxItemsRef.current
+        .filter((item) => item.chatId === chatId)
+        .map(outboxItemToMessage);
+      resetMessages([...chatMessages, ...queued]);
+    },
+    [resetMessages]
+  );
+
+  // Offline cache: show the last known chat list until the server's arrives
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    getCachedChats(userId)
+      .then((cachedChats) => {
+        if (cancelled || !cachedChats) return;
+        console.log('🗄️ [COMPONENT] Showing cached chats:', { count: cachedChats.length });
+        setChats((prevChats) => (prevChats.length > 0 ? prevChats : cachedChats));
+      })
+      .catch(logCacheError('read cached chats'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Keep the cached chat list and open conversation up to date
+  // (debounced - socket events can change them in quick succession)
+  useEffect(() => {
+    if (!userId || chats.length === 0) return;
+
+    const timer = setTimeout(() => {
+      putCachedChats(userId, chats).catch(logCacheError('cache chats'));
+    }, CACHE_WRITE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [userId, chats]);
+
+  useEffect(() => {
+    if (!userId || !selectedChatId) return;
+
+    // Right after a chat switch the store still holds the previous chat
+    const chatMessages = messages.filter((message) => message.chatId === selectedChatId);
+    if (chatMessages.length === 0) return;
+
+    const timer = setTimeout(() => {
+      putCachedConversation(userId, selectedChatId, { messages: chatMessages })
+        .catch(logCacheError('cache messages'));
+    }, CACHE_WRITE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [userId, selectedChatId, messages]);
+
   // Voice call state
   const {
     callState,
@@ -115,6 +345,112 @@ export default function ChatApp() {
     endCall: endCallHandler,
   } = useVoiceCall(socket, token);
 
+  /**
+   * Remove this pane (split screen)
+   * Unmounting only releases local media, so end any active or ringing call
+   * through the API first, or the other side keeps ringing
+   */
+  const handleRemovePane = useCallback(async () => {
+    if (!onRemove) return;
+    if (callState.status !== 'idle') {
+      await endCallHandler();
+    }
+    onRemove();
+  }, [onRemove, callState.status, endCallHandler]);
+
+  // Socket event inspector (recording runs while the panel is closed too)
+  const inspector = useSocketInspector(socket);
+  const inspectorDock = inspector.dock;
+
+  /**
+   * Tear down the current session and return to the phone step
+   * Ends any active call, closes the socket and clears persisted state
+   */
+  const teardownSession = useCallback(
+    async (reason: string | null) => {
+      console.log('🧹 [COMPONENT] Tearing down session:', { reason });
+
+      if (callState.status !== 'idle') {
+        await endCallHandler();
+      }
+
+      const activeSocket = socketRef.current;
+      if (activeSocket) {
+        const currentChatId = selectedChatIdRef.current;
+        if (currentChatId && activeSocket.isConnected()) {
+          activeSocket.leaveChat(currentChatId);
+        }
+        activeSocket.disconnect();
+        socketRef.current = null;
+      }
+      setSocket(null);
+
+      localStorage.removeItem(storageKey);
+
+      setToken(null);
+      setUserId(null);
+      setUsername(null);
+      setOtp('');
+      setChats([]);
+      setSelectedChatId(null);
+      resetMessages([]);
+      setHasMoreMessages(false);
+      setCallHistory([]);
+      setOtherUserName(null);
+      setSearchQuery('');
+      setSearchResults([]);
+      setShowSearchResults(false);
+      setErrorMessage(null);
+      setSyncStatus('connecting');
+      setLastSyncedAt(null);
+      setAuthError(reason);
+      setAuthStep('phone');
+    },
+    [callState.status, endCallHandler, storageKey, resetMessages]
+  );
+
+  /**
+   * Log out of the current session
+   * Releases the call, socket and cached data so another test account can sign in
+   */
+  const handleLogout = useCallback(async () => {
+    console.log('👋 [COMPONENT] Logging out:', { userId });
+    // Unsent messages and cached data are dropped on logout (kept when the
+    // session merely expires, so signing in again restores them)
+    clearOutbox();
+    if (userId) {
+      clearCachedData(userId).catch(logCacheError('clear cached data'));
+    }
+    await teardownSession(null);
+  }, [userId, teardownSession, clearOutbox]);
+
+  /**
+   * Remove this user's cached chats and conversations from the browser
+   * What is on screen stays; the cache fills again as chats are opened
+   */
+  const handleClearCache = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      await clearCachedData(userId);
+      console.log('🧹 [COMPONENT] Cached data cleared:', { userId });
+    } catch (error) {
+      logCacheError('clear cached data')(error);
+      setErrorMessage('Failed to clear cached data.');
+      setTimeout(() => setErrorMessage(null), 5000);
+    }
+  }, [userId]);
+
+  // Return to login when the backend rejects this session's token (REST 401 or socket auth error)
+  useEffect(() => {
+    if (!token) return;
+
+    return onSessionExpired((event) => {
+      if (event.token !== token) return;
+      teardownSession('Your session has expired. Please sign in again.');
+    });
+  }, [token, teardownSession]);
+
   /**
    * Step 1: Request OTP
    */
@@ -128,8 +464,8 @@ export default function ChatApp() {
       setAuthError(null);
       await requestOTP(phone);
       setAuthStep('otp');
-    } catch (error: any) {
-      setAuthError(error.response?.data?.message || 'Failed to request OTP');
+    } catch (error) {
+      setAuthError(getErrorMessage(error, 'Failed to request OTP'));
     }
   };
 
@@ -165,14 +501,15 @@ export default function ChatApp() {
       console.log('💾 [COMPONENT] Session saved after login:', { userId: profile.id });
 
       // Socket will be initialized by the useEffect hook
-    } catch (error: any) {
-      setAuthError(error.response?.data?.message || 'Failed to verify OTP');
+    } catch (error) {
+      setAuthError(getErrorMessage(error, 'Failed to verify OTP'));
     }
   };
 
   /**
    * Load all chats for the current user
-   * Includes rate limiting error handling
+   * Includes rate limiting error handling. On failure the current (possibly
+   * cached) list is kept
    */
   const loadChats = useCallback(async () => {
     if (!token) return;
@@ -187,12 +524,12 @@ export default function ChatApp() {
         console.warn('getUserChats did not return an array:', userChats);
         setChats([]);
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error('Failed to load chats:', error);
 
       // Don't show error for rate limiting on background refresh
       // Only log it
-      if (error.response?.status === 429) {
+      if (error instanceof ApiError && error.kind === 'rate_limited') {
         console.warn('Rate limited while loading chats. Will retry later.');
       }
 
@@ -209,9 +546,15 @@ export default function ChatApp() {
    * - Excludes current user from results (handled by backend)
    * - Limited to 20 results
    * - Results sorted alphabetically by username
+   *
+   * Each search cancels the previous one; responses from superseded
+   * requests are dropped so a slow "jo" cannot overwrite "john".
    */
   const handleSearchUsers = useCallback(
     async (query: string) => {
+      searchAbortRef.current?.abort();
+      searchAbortRef.current = null;
+
       if (!token || !query.trim() || query.length < 1) {
         setSearchResults([]);
         setShowSearchResults(false);
@@ -225,26 +568,41 @@ export default function ChatApp() {
         return;
       }
 
+      const controller = new AbortController();
+      searchAbortRef.current = controller;
+      const requestId = ++searchRequestIdRef.current;
+
       try {
         setIsSearching(true);
-        const results = await searchUsers(token, query);
+        const results = await searchUsers(token, query, controller.signal);
+
+        // A newer search started while this one was in flight
+        if (requestId !== searchRequestIdRef.current) {
+          return;
+        }
 
         // Ensure we have an array before filtering
         if (Array.isArray(results)) {
           // Backend already excludes current user, but filter as safety measure
           setSearchResults(results.filter((user) => user.id !== userId));
+          setActiveResultIndex(0);
           setShowSearchResults(true);
         } else {
           console.warn('searchUsers did not return an array:', results);
           setSearchResults([]);
           setShowSearchResults(false);
         }
-      } catch (error: any) {
+      } catch (error) {
+        if (requestId !== searchRequestIdRef.current || (error instanceof ApiError && error.kind === 'aborted')) {
+          return;
+        }
         console.error('Failed to search users:', error);
         setSearchResults([]);
         setShowSearchResults(false);
       } finally {
-        setIsSearching(false);
+        if (requestId === searchRequestIdRef.current) {
+          setIsSearching(false);
+        }
       }
     },
     [token, userId]
@@ -264,7 +622,11 @@ export default function ChatApp() {
       handleSearchUsers(searchQuery);
     }, 300); // 300ms debounce
 
-    return () => clearTimeout(timer);
+    return () => {
+      clearTimeout(timer);
+      // Query changed - the in-flight request (if any) is now stale
+      searchAbortRef.current?.abort();
+    };
   }, [searchQuery, handleSearchUsers]);
 
   /**
@@ -285,46 +647,36 @@ export default function ChatApp() {
   };
 
   /**
-   * Create or get chat with the other user (for new chats)
+   * Keyboard navigation for search results
+   * ArrowUp/ArrowDown move the highlight, Enter opens a chat, Escape closes the list
    */
-  const handleCreateOrSelectChat = useCallback(
-    async (targetUserId: string) => {
-      if (!token) return;
-
-      try {
-        const chat = await createOrGetChat(token, targetUserId);
-        const chatIdToUse = chat.chatId || chat.id;
-        setSelectedChatId(chatIdToUse);
-
-        // Find other user's name (handle both old and new API formats)
-        const otherUser = chat.otherParticipant ||
-          (chat.participants ? chat.participants.find((p) => p.id !== userId) : null);
-        setOtherUserName(otherUser?.username || otherUser?.phone || 'Unknown');
-
-        // Load messages and call history for this chat
-        if (token && userId) {
-          try {
-            const chatMessages = await getChatMessages(token, chatIdToUse);
-            if (Array.isArray(chatMessages)) {
-              const sorted = chatMessages.sort(
-                (a, b) =>
-                  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-              );
-              setMessages(sorted);
-            }
-
-            // Load call history using the function
-            await loadCallHistory(chatIdToUse, otherUser?.id);
-          } catch (error: any) {
-            console.error('Failed to load messages/call history:', error);
-          }
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSearchResults || searchResults.length === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        const nextIndex = (activeResultIndex + step + searchResults.length) % searchResults.length;
+        setActiveResultIndex(nextIndex);
+        searchResultRefs.current[nextIndex]?.scrollIntoView({ block: 'nearest' });
+        break;
+      }
+      case 'Enter': {
+        e.preventDefault();
+        const user = searchResults[activeResultIndex];
+        if (user) {
+          handleSelectUserFromSearch(user);
         }
-      } catch (error: any) {
-        console.error('Failed to create/get chat:', error);
+        break;
       }
-    },
-    [token, userId]
-  );
+      case 'Escape':
+        e.preventDefault();
+        setShowSearchResults(false);
+        break;
+    }
+  };
 
   /**
    * Load call history for the selected chat
@@ -381,13 +733,15 @@ export default function ChatApp() {
             relevantCalls: relevantCalls.length,
             callIds: relevantCalls.map(c => c.id),
           });
+          putCachedConversation(userId, chatId, { callHistory: relevantCalls })
+            .catch(logCacheError('cache call history'));
         } else {
           console.warn('⚠️ [COMPONENT] No otherUserId found for chat:', chatId);
           setCallHistory([]);
         }
       } catch (error) {
+        // Keep the cached history shown by loadChatMessages
         console.error('❌ [COMPONENT] Failed to load call history:', error);
-        setCallHistory([]);
       }
     },
     [token, userId, chats]
@@ -395,6 +749,8 @@ export default function ChatApp() {
 
   /**
    * Load messages for the selected chat
+   * The cached copy (messages and call history) is shown right away, then
+   * replaced by the server's; without a network the cached copy stays
    */
   const loadChatMessages = useCallback(
     async (chatId: string) => {
@@ -409,43 +765,139 @@ export default function ChatApp() {
         timestamp: new Date().toISOString(),
       });
 
+      const cached = userId
+        ? await getCachedConversation(userId, chatId).catch((error) => {
+            logCacheError('read cached conversation')(error);
+            return null;
+          })
+        : null;
+      if (cached) {
+        console.log('🗄️ [COMPONENT] Showing cached conversation:', {
+          chatId,
+          messages: cached.messages.length,
+          calls: cached.callHistory.length,
+        });
+        resetChatMessages(chatId, cached.messages);
+        setHasMoreMessages(cached.hasMoreMessages);
+      }
+      setCallHistory(cached?.callHistory ?? []);
+
       try {
         const chatMessages = await getChatMessages(token, chatId);
 
         // Ensure we have an array before sorting
         if (Array.isArray(chatMessages)) {
-          const sorted = chatMessages.sort(
-            (a, b) =>
-              new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-          );
-
-          console.log('✅ [COMPONENT] Messages loaded and sorted:', {
-            count: sorted.length,
-            messageIds: sorted.map(m => m.id),
-            senders: sorted.map(m => ({ id: m.senderId, isMe: m.senderId === userId })),
+          console.log('✅ [COMPONENT] Messages loaded:', {
+            count: chatMessages.length,
+            messageIds: chatMessages.map(m => m.id),
+            senders: chatMessages.map(m => ({ id: m.senderId, isMe: m.senderId === userId })),
           });
 
-          setMessages(sorted);
+          // The store de-duplicates and sorts
+          resetChatMessages(chatId, chatMessages);
+          setHasMoreMessages(chatMessages.length >= MESSAGE_PAGE_SIZE);
+          if (userId) {
+            putCachedConversation(userId, chatId, {
+              messages: chatMessages,
+              hasMoreMessages: chatMessages.length >= MESSAGE_PAGE_SIZE,
+            }).catch(logCacheError('cache messages'));
+          }
 
           // Mark messages as delivered when loading chat
-          if (socket?.isConnected() && sorted.length > 0) {
+          if (socket?.isConnected() && chatMessages.length > 0) {
             console.log('📬 [COMPONENT] Marking messages as delivered for chat:', chatId);
             socket.markAsDelivered(chatId);
           }
         } else {
           console.warn('⚠️ [COMPONENT] getChatMessages did not return an array:', chatMessages);
-          setMessages([]);
+          resetChatMessages(chatId, []);
+          setHasMoreMessages(false);
         }
-      } catch (error: any) {
+      } catch (error) {
         console.error('❌ [COMPONENT] Failed to load messages:', {
-          error: error.message,
+          error: getErrorMessage(error, 'Unknown error'),
+          kind: error instanceof ApiError ? error.kind : undefined,
           chatId,
-          response: error.response?.data,
+          showingCached: !!cached,
         });
-        setMessages([]);
+        if (!cached) {
+          resetChatMessages(chatId, []);
+          setHasMoreMessages(false);
+        }
+      }
+    },
+    [token, userId, socket, resetChatMessages]
+  );
+
+  /**
+   * Load the page of messages before the oldest one loaded
+   * Called by ChatWindow when the user scrolls to the top
+   */
+  const loadOlderMessages = useCallback(async () => {
+    const chatId = selectedChatId;
+    const oldest = messages[0];
+    if (!token || !chatId || !oldest || !hasMoreMessages || isLoadingOlderMessages) return;
+
+    setIsLoadingOlderMessages(true);
+    try {
+      const olderMessages = await getChatMessages(token, chatId, MESSAGE_PAGE_SIZE, oldest.id);
+
+      // Chat was switched while the page was loading
+      if (selectedChatIdRef.current !== chatId) return;
+
+      console.log('📜 [COMPONENT] Older messages loaded:', {
+        chatId,
+        before: oldest.id,
+        count: olderMessages.length,
+      });
+
+      setHasMoreMessages(olderMessages.length >= MESSAGE_PAGE_SIZE);
+      upsertMessages(olderMessages);
+    } catch (error) {
+      // Leave hasMoreMessages set so scrolling up again retries
+      console.error('❌ [COMPONENT] Failed to load older messages:', {
+        error: getErrorMessage(error, 'Unknown error'),
+        kind: error instanceof ApiError ? error.kind : undefined,
+        chatId,
+      });
+    } finally {
+      setIsLoadingOlderMessages(false);
+    }
+  }, [token, selectedChatId, messages, hasMoreMessages, isLoadingOlderMessages, upsertMessages]);
+
+  /**
+   * Create or get chat with the other user (for new chats)
+   */
+  const handleCreateOrSelectChat = useCallback(
+    async (targetUserId: string) => {
+      if (!token) return;
+
+      try {
+        const chat = await createOrGetChat(token, targetUserId);
+        const chatIdToUse = chat.chatId || chat.id;
+        setSelectedChatId(chatIdToUse);
+
+        // Find other user's name (handle both old and new API formats)
+        const otherUser = chat.otherParticipant ||
+          (chat.participants ? chat.participants.find((p) => p.id !== userId) : null);
+        setOtherUserName(otherUser?.username || otherUser?.phone || 'Unknown');
+
+        // Load messages and call history for this chat
+        if (token && userId) {
+          try {
+            await loadChatMessages(chatIdToUse);
+
+            // Load call history using the function
+            await loadCallHistory(chatIdToUse, otherUser?.id);
+          } catch (error) {
+            console.error('Failed to load messages/call history:', error);
+          }
+        }
+      } catch (error) {
+        console.error('Failed to create/get chat:', error);
       }
     },
-    [token, userId, socket]
+    [token, userId, loadChatMessages, loadCallHistory]
   );
 
   /**
@@ -468,7 +920,7 @@ export default function ChatApp() {
         await loadChatMessages(chatIdToUse);
         // Pass otherUserId to ensure it's available even if chats array hasn't updated yet
         await loadCallHistory(chatIdToUse, otherUser?.id);
-      } catch (error: any) {
+      } catch (error) {
         console.error('Failed to select chat:', error);
       }
     },
@@ -476,94 +928,504 @@ export default function ChatApp() {
   );
 
   /**
-   * Send a message
-   * Includes rate limiting protection and user-friendly error handling
+   * Settle a message whose send was never acknowledged
+   * Looks for it among the chat's newest messages: found, it is confirmed;
+   * otherwise it is marked failed so it can be retried or discarded.
+   * Does nothing if the message:sent echo confirmed it in the meantime.
    */
-  const handleSendMessage = useCallback(
-    async (content: string) => {
-      if (!token || !selectedChatId || isSendingMessage) return;
+  const verifyUnconfirmedMessage = useCallback(
+    async (pending: Message) => {
+      const isStillPending = () =>
+        selectedChatIdRef.current === pending.chatId &&
+        messagesRef.current.some((message) => message.id === pending.id && message.sendState === 'pending');
+      if (!token || !userId || !isStillPending()) return;
 
-      setIsSendingMessage(true);
-      setErrorMessage(null);
+      console.log('🔎 [COMPONENT] Checking unconfirmed message:', { clientId: pending.clientId });
+      const sentAfter = new Date(pending.createdAt).getTime() - CLOCK_SKEW_MS;
 
       try {
-        console.log('💬 [COMPONENT] Sending message:', {
-          content: content.substring(0, 50) + (content.length > 50 ? '...' : ''),
-          chatId: selectedChatId,
-          userId,
-          timestamp: new Date().toISOString(),
+        const recent = await getChatMessages(token, pending.chatId);
+        if (!isStillPending()) return;
+
+        const knownIds = new Set(messagesRef.current.map((message) => message.id));
+        const stored = recent
+          .filter(
+            (message) =>
+              message.senderId === userId &&
+              message.type === pending.type &&
+              message.content === pending.content &&
+              new Date(message.createdAt).getTime() >= sentAfter &&
+              !knownIds.has(message.id)
+          )
+          .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())[0];
+
+        if (stored) {
+          console.log('✅ [COMPONENT] Unconfirmed message was stored:', { clientId: pending.clientId, messageId: stored.id });
+          confirmSentMessage(stored, pending.clientId);
+          return;
+        }
+      } catch (error) {
+        console.warn('⚠️ [COMPONENT] Failed to check unconfirmed message:', getErrorMessage(error, 'Unknown error'));
+        if (!isStillPending()) return;
+      }
+
+      // Not on the server (or we can't tell): hand it back to the user
+      setMessageSendState(pending.id, 'failed');
+    },
+    [token, userId, confirmSentMessage, setMessageSendState]
+  );
+
+  /**
+   * Deliver a pending message to the server over the selected transport
+   * Sends go through a queue so several can be in flight while the server
+   * still receives them in the order they were written.
+   * On failure the message is marked failed (or removed, with
+   * discardOnFailure); an unconfirmed one stays pending until it is verified
+   */
+  const deliverMessage = useCallback(
+    async (pending: Message, discardOnFailure = false): Promise<SendResult> => {
+      if (!token) return 'failed';
+
+      const transmit = async (): Promise<{ message: Message; via: 'socket' | 'rest' }> => {
+        if (messageTransport === 'rest') {
+          const message = await sendMessage(token, pending.chatId, pending.type, pending.content);
+          return { message, via: 'rest' };
+        }
+
+        const activeSocket = socketRef.current;
+        if (!activeSocket) {
+          throw new NetworkError('Not connected to the chat server');
+        }
+        const { data, via } = await activeSocket.sendMessageWithAck(pending.chatId, pending.type, pending.content, {
+          fallbackToRest: messageTransport === 'socket-fallback',
         });
+        return { message: data, via };
+      };
 
-        // Send via REST API
-        const newMessage = await sendMessage(token, selectedChatId, 'text', content);
+      const send = sendQueueRef.current.then(transmit);
+      sendQueueRef.current = send.catch(() => undefined);
 
-        console.log('✅ [COMPONENT] Message sent via API:', {
+      try {
+        const { message: newMessage, via } = await send;
+
+        console.log('✅ [COMPONENT] Message sent:', {
+          via,
+          transport: messageTransport,
           messageId: newMessage.id,
+          clientId: pending.clientId,
           chatId: newMessage.chatId,
-          senderId: newMessage.senderId,
           isRead: newMessage.isRead,
           isDelivered: newMessage.isDelivered,
         });
 
-        // Optimistically add to local state (message already persisted on server)
-        // The backend will emit this message via socket, which will also update the UI
-        // We add it here for immediate feedback, but socket event will handle real-time sync
-        setMessages((prev) => {
-          // Avoid duplicates (socket event might arrive first)
-          if (prev.some((m) => m.id === newMessage.id)) {
-            console.warn('⚠️ [COMPONENT] Message already exists, skipping duplicate:', newMessage.id);
-            return prev;
-          }
-
-          const updated = [...prev, newMessage].sort(
-            (a, b) =>
-              new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-          );
-
-          console.log('📝 [COMPONENT] Updated messages state (optimistic):', {
-            previousCount: prev.length,
-            newCount: updated.length,
-            addedMessageId: newMessage.id,
-          });
-
-          return updated;
-        });
-
-        // Note: Backend will emit message:new event via socket after REST API call
-        // No need to send via socket separately - the socket event will handle real-time sync
+        // The socket's message:sent / message:new may have reconciled it already
+        if (selectedChatIdRef.current === newMessage.chatId) {
+          confirmSentMessage(newMessage, pending.clientId);
+        }
 
         // Chat list will be updated via socket events (chat:updated or message:new)
         // No need to call loadChats() here to avoid API spam
-      } catch (error: any) {
+        return 'sent';
+      } catch (error) {
         console.error('Failed to send message:', error);
 
-        // Extract user-friendly error message
-        let errorMsg = 'Failed to send message. Please try again.';
-        if (error.response?.status === 429) {
-          errorMsg = error.message || 'Too many requests. Please wait a moment and try again.';
-        } else if (error.response?.data?.message) {
-          errorMsg = error.response.data.message;
-        } else if (error.message) {
-          errorMsg = error.message;
+        // Emitted but not acknowledged: the server may still store it, so
+        // keep it pending for the message:sent echo instead of offering a
+        // retry that could send it twice, and look it up if no echo comes
+        if (error instanceof SocketAckTimeoutError) {
+          setErrorMessage('The server has not confirmed the message yet - it may still arrive.');
+          setTimeout(() => setErrorMessage(null), 5000);
+          setTimeout(() => verifyUnconfirmedMessage(pending), UNCONFIRMED_GRACE_MS);
+          return 'unconfirmed';
+        }
+
+        // Lost the connection mid-send: queue it rather than failing
+        const kind = error instanceof ApiError ? error.kind : undefined;
+        if (!discardOnFailure && (kind === 'network' || kind === 'timeout')) {
+          setMessageSendState(pending.id, 'queued');
+          queueMessage(pending);
+          return 'queued';
         }
 
-        setErrorMessage(errorMsg);
+        if (discardOnFailure) {
+          removeMessage(pending.id);
+        } else {
+          setMessageSendState(pending.id, 'failed');
+        }
+
+        // ApiError messages are already user-friendly
+        setErrorMessage(getErrorMessage(error, 'Failed to send message. Please try again.'));
 
         // Auto-clear error message after 5 seconds
         setTimeout(() => setErrorMessage(null), 5000);
-      } finally {
-        setIsSendingMessage(false);
+        return 'failed';
+      }
+    },
+    [
+      token,
+      messageTransport,
+      confirmSentMessage,
+      removeMessage,
+      setMessageSendState,
+      queueMessage,
+      verifyUnconfirmedMessage,
+    ]
+  );
+
+  /**
+   * Send a message
+   * The message appears immediately as pending (🕒) with a temporary client ID
+   * and is reconciled with the server copy once confirmed. While offline (or
+   * while earlier messages of the chat are still queued) it goes to the outbox.
+   */
+  const handleSendMessage = useCallback(
+    async (
+      content: string,
+      type: MessageType = 'text',
+      options: { discardOnFailure?: boolean } = {}
+    ): Promise<SendResult> => {
+      if (!token || !userId || !selectedChatId) return 'failed';
+
+      setErrorMessage(null);
+
+      const clientId = `local-${Date.now()}-${clientMessageCounter++}`;
+      const pending: Message = {
+        id: clientId,
+        clientId,
+        chatId: selectedChatId,
+        senderId: userId,
+        type,
+        content,
+        isRead: false,
+        isDelivered: false,
+        createdAt: new Date().toISOString(),
+        sendState: 'pending',
+      };
+
+      console.log('💬 [COMPONENT] Sending message:', {
+        clientId,
+        content: content.substring(0, 50) + (content.length > 50 ? '...' : ''),
+        chatId: selectedChatId,
+        timestamp: new Date().toISOString(),
+      });
+
+      // Media can't be uploaded offline, so only plain sends are queued
+      const shouldQueue =
+        !options.discardOnFailure &&
+        (!isOnline() || outboxItemsRef.current.some((item) => item.chatId === selectedChatId));
+      if (shouldQueue) {
+        addPendingMessage({ ...pending, sendState: 'queued' });
+        queueMessage(pending);
+        return 'queued';
+      }
+
+      // Pending messages go last - they are the newest
+      addPendingMessage(pending);
+
+      return deliverMessage(pending, options.discardOnFailure);
+    },
+    [token, userId, selectedChatId, deliverMessage, addPendingMessage, isOnline, queueMessage]
+  );
+
+  /**
+   * Send a failed message again (or a queued one without waiting for its backoff)
+   */
+  const handleRetryMessage = useCallback(
+    (message: Message) => {
+      if (!message.clientId) return;
+
+      if (message.sendState === 'queued') {
+        retryQueuedMessage(message.clientId);
+        return;
+      }
+
+      const pending: Message = { ...message, sendState: 'pending' };
+      setMessageSendState(message.clientId, 'pending');
+      deliverMessage(pending);
+    },
+    [deliverMessage, setMessageSendState, retryQueuedMessage]
+  );
+
+  /**
+   * Drop a failed or queued message without sending it
+   */
+  const handleDiscardMessage = useCallback(
+    (message: Message) => {
+      if (message.clientId) {
+        removeQueuedMessage(message.clientId);
+      }
+      removeMessage(message.clientId || message.id);
+    },
+    [removeMessage, removeQueuedMessage]
+  );
+
+  /**
+   * Apply an edited message to the open chat and the chat list preview
+   * Used for our own edits and for message:edited socket events
+   */
+  const applyEditedMessage = useCallback((edited: Message) => {
+    if (edited.chatId === selectedChatIdRef.current) {
+      upsertMessages({ ...edited, updatedAt: edited.updatedAt || new Date().toISOString() });
+    }
+    setChats((prevChats) =>
+      prevChats.map((chat) => {
+        const lastMessageId = chat.lastMessage?.id || chat.lastMessage?._id;
+        return chat.lastMessage && lastMessageId === edited.id
+          ? { ...chat, lastMessage: { ...chat.lastMessage, content: edited.content } }
+          : chat;
+      })
+    );
+  }, [upsertMessages]);
+
+  /**
+   * Edit one of our own messages
+   * Resolves to true when the server accepted the edit
+   */
+  const handleEditMessage = useCallback(
+    async (messageId: string, content: string): Promise<boolean> => {
+      if (!token) return false;
+
+      try {
+        setErrorMessage(null);
+        const edited = await editMessage(token, messageId, content);
+        applyEditedMessage(edited);
+        return true;
+      } catch (error) {
+        console.error('Failed to edit message:', error);
+        setErrorMessage(
+          error instanceof ApiError && error.kind === 'forbidden'
+            ? 'This message can no longer be edited'
+            : getErrorMessage(error, 'Failed to edit message. Please try again.')
+        );
+        setTimeout(() => setErrorMessage(null), 5000);
+        return false;
+      }
+    },
+    [token, applyEditedMessage]
+  );
+
+  /**
+   * Apply a deletion to the open chat and the chat list preview
+   * Deleted for everyone: tombstone. Deleted for me: removed, and the chat list
+   * is reloaded if it was the last message so the preview falls back correctly.
+   * Used for our own deletions and for message:deleted socket events
+   */
+  const applyDeletedMessage = useCallback(
+    ({ messageId, deleteForEveryone }: MessageDeletedEvent, wasLastMessage: boolean) => {
+      if (deleteForEveryone) {
+        markMessageDeleted(messageId);
+        setChats((prevChats) =>
+          prevChats.map((chat) => {
+            const lastMessageId = chat.lastMessage?.id || chat.lastMessage?._id;
+            return chat.lastMessage && lastMessageId === messageId
+              ? { ...chat, lastMessage: { ...chat.lastMessage, content: '', isDeleted: true } }
+              : chat;
+          })
+        );
+        return;
+      }
+
+      removeMessage(messageId);
+      if (wasLastMessage) {
+        loadChats();
+      }
+    },
+    [loadChats, markMessageDeleted, removeMessage]
+  );
+
+  /**
+   * Delete a message for me or for everyone
+   * Resolves to true when the server accepted the deletion
+   */
+  const handleDeleteMessage = useCallback(
+    async (message: Message, deleteForEveryone: boolean): Promise<boolean> => {
+      if (!token) return false;
+
+      try {
+        setErrorMessage(null);
+        await deleteMessage(token, message.id, deleteForEveryone);
+
+        const chat = chats.find((c) => (c.chatId || c.id) === message.chatId);
+        const lastMessageId = chat?.lastMessage?.id || chat?.lastMessage?._id;
+        applyDeletedMessage(
+          { messageId: message.id, chatId: message.chatId, deleteForEveryone },
+          lastMessageId === message.id
+        );
+        return true;
+      } catch (error) {
+        console.error('Failed to delete message:', error);
+        setErrorMessage(
+          error instanceof ApiError && error.kind === 'forbidden'
+            ? 'This message can no longer be deleted for everyone'
+            : getErrorMessage(error, 'Failed to delete message. Please try again.')
+        );
+        setTimeout(() => setErrorMessage(null), 5000);
+        return false;
+      }
+    },
+    [token, chats, applyDeletedMessage]
+  );
+
+  /**
+   * Upload a file and send it as a media message
+   * Rejects on failure so the caller can keep the file for another try
+   */
+  const handleSendMedia = useCallback(
+    async (file: File, options: UploadMediaOptions) => {
+      if (!token || !selectedChatId) return;
+
+      const upload = await uploadMedia(token, file, options);
+      // The attachment tray keeps the file for retry, so don't leave a failed bubble
+      const result = await handleSendMessage(upload.content, upload.type, { discardOnFailure: true });
+      // An unconfirmed message may already reference the upload, so keep it;
+      // resolving also clears the tray, which would otherwise send it again
+      if (result === 'failed') {
+        // Don't leave the uploaded file (and its thumbnail) orphaned on the server
+        const uploadedUrls = [upload.attachment.url];
+        if (upload.attachment.thumbnailUrl && upload.attachment.thumbnailUrl !== options.thumbnailUrl) {
+          uploadedUrls.push(upload.attachment.thumbnailUrl);
+        }
+        uploadedUrls.forEach((url) => {
+          deleteMedia(token, url).catch((deleteError) => {
+            console.warn('⚠️ [COMPONENT] Failed to delete unsent media:', deleteError);
+          });
+        });
+        throw new Error('Message was not sent');
+      }
+    },
+    [token, selectedChatId, handleSendMessage]
+  );
+
+  /**
+   * Upload a recorded voice note and send it as a voice message
+   */
+  const handleSendVoiceNote = useCallback(
+    async (file: File, duration: number) => {
+      try {
+        setErrorMessage(null);
+        await handleSendMedia(file, { type: 'voice', duration });
+      } catch (error) {
+        console.error('Failed to send voice note:', error);
+        setErrorMessage((prev) => prev || getErrorMessage(error, 'Failed to send voice note. Please try again.'));
+        setTimeout(() => setErrorMessage(null), 5000);
+        throw error;
       }
     },
-    [token, selectedChatId, socket, isSendingMessage, loadChats]
+    [handleSendMedia]
   );
 
+  /**
+   * Catch up on what happened while the socket was down
+   * Events sent during the gap are lost, so refetch the chat list, then the
+   * messages newer than the last known one in the open chat and in recently
+   * active (cached) chats. Read/delivered states of our messages are
+   * reconciled from the refetched copies.
+   */
+  const catchUpAfterReconnect = useCallback(async () => {
+    if (!token || !userId || isCatchingUpRef.current) return;
+
+    isCatchingUpRef.current = true;
+    setSyncStatus('syncing');
+    console.log('🔄 [COMPONENT] Catching up after reconnect:', { userId });
+
+    try {
+      const previousChats = chatsRef.current;
+      const freshChats = await getUserChats(token);
+      if (Array.isArray(freshChats)) {
+        setChats(freshChats);
+      }
+
+      // Chats whose last message changed while we were away (list is most recent first)
+      const openChatId = selectedChatIdRef.current;
+      const previousLastMessageIds = new Map(
+        previousChats.map((chat) => [chat.chatId || chat.id, chat.lastMessage?.id || chat.lastMessage?._id])
+      );
+      const changedChatIds = (Array.isArray(freshChats) ? freshChats : [])
+        .map((chat) => ({ chatId: chat.chatId || chat.id, lastMessageId: chat.lastMessage?.id || chat.lastMessage?._id }))
+        .filter(({ chatId, lastMessageId }) =>
+          chatId !== openChatId && previousLastMessageIds.get(chatId) !== lastMessageId
+        )
+        .slice(0, CATCH_UP_CHAT_LIMIT)
+        .map(({ chatId }) => chatId);
+
+      if (openChatId) {
+        const lastKnown = messagesRef.current
+          .filter((message) => message.chatId === openChatId && !message.sendState)
+          .at(-1);
+        const { messages: missed, complete } = await getMessagesSince(token, openChatId, lastKnown);
+
+        if (selectedChatIdRef.current === openChatId) {
+          if (complete) {
+            upsertMessages(missed);
+          } else {
+            // Too far behind to fill the gap - start again from the newest page
+            resetChatMessages(openChatId, missed);
+            setHasMoreMessages(true);
+          }
+
+          // Our newest message's status covers all earlier ones
+          const newestOwn = missed
+            .filter((message) => message.senderId === userId)
+            .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+            .at(-1);
+          if (newestOwn?.isRead) {
+            applyReceipt('read', userId);
+          } else if (newestOwn?.isDelivered) {
+            applyReceipt('delivered', userId);
+          }
+
+          // The chat is open, so anything new from the other side is read
+          const activeSocket = socketRef.current;
+          if (missed.some((message) => message.senderId !== userId && !message.isRead) && activeSocket?.isConnected()) {
+            activeSocket.markAsDelivered(openChatId);
+            activeSocket.markAsRead(openChatId);
+          }
+        }
+
+        console.log('✅ [COMPONENT] Open chat caught up:', { chatId: openChatId, count: missed.length, complete });
+      }
+
+      // Refresh the cached copy of recently active chats so they open up to date
+      // (chats never opened aren't cached and load in full when opened)
+      for (const chatId of changedChatIds) {
+        const cached = await getCachedConversation(userId, chatId).catch(() => null);
+        if (!cached) continue;
+
+        const lastKnown = cached.messages.at(-1);
+        const { messages: missed, complete } = await getMessagesSince(token, chatId, lastKnown);
+        const merged = new Map(complete ? cached.messages.map((message) => [message.id, message]) : []);
+        missed.forEach((message) => {
+          const existing = merged.get(message.id);
+          merged.set(message.id, existing ? mergeMessage(existing, message) : message);
+        });
+
+        await putCachedConversation(userId, chatId, {
+          messages: Array.from(merged.values()),
+          hasMoreMessages: complete ? cached.hasMoreMessages : true,
+        });
+        console.log('✅ [COMPONENT] Cached chat caught up:', { chatId, count: missed.length, complete });
+      }
+
+      setSyncStatus(socketRef.current?.isConnected() ? 'synced' : 'offline');
+      setLastSyncedAt(new Date().toISOString());
+    } catch (error) {
+      console.error('❌ [COMPONENT] Catch-up after reconnect failed:', {
+        error: getErrorMessage(error, 'Unknown error'),
+        kind: error instanceof ApiError ? error.kind : undefined,
+      });
+      setSyncStatus(socketRef.current?.isConnected() ? 'error' : 'offline');
+    } finally {
+      isCatchingUpRef.current = false;
+    }
+  }, [token, userId, upsertMessages, resetChatMessages, applyReceipt]);
+
   // Initialize socket and load chats when authenticated (including restored sessions)
   useEffect(() => {
     if (authStep === 'authenticated' && token && userId && !socket) {
       console.log('🔌 [COMPONENT] Initializing socket connection:', { userId });
 
       // Initialize socket connection for this session
+      let hasConnected = false; // later connects are reconnects
       const newSocket = new ChatSocket(token, {
         onMessageNew: (message) => {
           console.log('📨 [COMPONENT] Socket callback received message:', {
@@ -577,49 +1439,28 @@ export default function ChatApp() {
           });
 
           // Add new message to current chat if it matches (use ref for current value)
-          setMessages((prev) => {
-            // Check if message belongs to currently selected chat (use ref for latest value)
-            const currentChatId = selectedChatIdRef.current;
-            const isForCurrentChat = message.chatId === currentChatId;
-
-            console.log('🔍 [COMPONENT] Checking if message belongs to current chat:', {
-              messageChatId: message.chatId,
-              currentChatId,
-              isForCurrentChat,
-              previousMessageCount: prev.length,
-            });
-
-            // Avoid duplicates
-            if (prev.some((m) => m.id === message.id)) {
-              console.warn('⚠️ [COMPONENT] Duplicate message detected, skipping:', message.id);
-              return prev;
-            }
-
-            // If it's for current chat, add it; otherwise just return prev
-            if (isForCurrentChat) {
-              const updated = [...prev, message].sort(
-                (a, b) =>
-                  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-              );
-
-              console.log('✅ [COMPONENT] Added message to current chat:', {
-                newCount: updated.length,
-                messageId: message.id,
-              });
+          const currentChatId = selectedChatIdRef.current;
+          if (message.chatId === currentChatId) {
+            if (message.senderId === userId) {
+              // Our own message echoed back - confirms the pending copy
+              confirmSentMessage(message);
+            } else {
+              // The store ignores duplicates
+              upsertMessages(message);
+              console.log('✅ [COMPONENT] Added message to current chat:', message.id);
 
-              // Mark as delivered and read if it's for current chat
+              // Mark as delivered and read since the chat is open
               if (newSocket.isConnected()) {
                 newSocket.markAsDelivered(message.chatId);
                 newSocket.markAsRead(message.chatId);
               }
-
-              return updated;
-            } else {
-              console.log('ℹ️ [COMPONENT] Message not for current chat, ignoring');
             }
-
-            return prev;
-          });
+          } else {
+            console.log('ℹ️ [COMPONENT] Message not for current chat, ignoring:', {
+              messageChatId: message.chatId,
+              currentChatId,
+            });
+          }
 
           // Update chat list to reflect new last message
           setChats((prevChats) => {
@@ -654,6 +1495,29 @@ export default function ChatApp() {
             }
           });
         },
+        onMessageSent: (message) => {
+          console.log('✅ [COMPONENT] Message confirmed via socket:', {
+            messageId: message.id,
+            chatId: message.chatId,
+          });
+          if (message.chatId === selectedChatIdRef.current) {
+            confirmSentMessage(message);
+          }
+        },
+        onMessageEdited: (message) => {
+          console.log('✏️ [COMPONENT] Message edited via socket:', {
+            messageId: message.id,
+            chatId: message.chatId,
+          });
+          applyEditedMessage(message);
+        },
+        onMessageDeleted: (data) => {
+          console.log('🗑️ [COMPONENT] Message deleted via socket:', data);
+          // Read the chat list from the ref - this handler outlives renders
+          const chat = chatsRef.current.find((c) => (c.chatId || c.id) === data.chatId);
+          const lastMessageId = chat?.lastMessage?.id || chat?.lastMessage?._id;
+          applyDeletedMessage(data, lastMessageId === data.messageId);
+        },
         onChatNew: (chat) => {
           console.log('✅ [COMPONENT] New chat received via socket:', {
             chatId: chat.chatId || chat.id,
@@ -704,28 +1568,17 @@ export default function ChatApp() {
         },
         onMessageRead: (data) => {
           console.log('📖 [COMPONENT] Message read receipt received:', data);
-          // Update message status in current chat
-          if (data.chatId === selectedChatIdRef.current) {
-            setMessages((prev) =>
-              prev.map((msg) =>
-                msg.chatId === data.chatId && msg.senderId !== userId
-                  ? { ...msg, isRead: true, isDelivered: true }
-                  : msg
-              )
-            );
+          // The other participant read the chat - our messages are read
+          // (ignore the echo of our own read receipt)
+          if (data.chatId === selectedChatIdRef.current && data.readBy !== userId) {
+            applyReceipt('read', userId);
           }
         },
         onMessageDelivered: (data) => {
           console.log('📬 [COMPONENT] Message delivered receipt received:', data);
-          // Update message status in current chat
-          if (data.chatId === selectedChatIdRef.current) {
-            setMessages((prev) =>
-              prev.map((msg) =>
-                msg.chatId === data.chatId && msg.senderId !== userId
-                  ? { ...msg, isDelivered: true }
-                  : msg
-              )
-            );
+          // Our messages reached the other participant
+          if (data.chatId === selectedChatIdRef.current && data.deliveredTo !== userId) {
+            applyReceipt('delivered', userId);
           }
         },
         onChatJoined: (data) => {
@@ -775,9 +1628,24 @@ export default function ChatApp() {
         },
         onConnect: () => {
           console.log('Socket connected');
+          // Events sent while we were disconnected are lost - resync
+          if (hasConnected) {
+            catchUpAfterReconnect();
+          } else {
+            setSyncStatus('synced');
+            setLastSyncedAt(new Date().toISOString());
+          }
+          hasConnected = true;
+          // Send whatever was written while we were offline
+          flushOutbox();
         },
         onDisconnect: () => {
           console.log('Socket disconnected');
+          setSyncStatus('offline');
+        },
+        onError: (error) => {
+          // Malformed payloads are dropped by ChatSocket; nothing to undo here
+          console.warn('⚠️ [COMPONENT] Socket error:', error.message);
         },
       });
       newSocket.connect();
@@ -794,7 +1662,20 @@ export default function ChatApp() {
         socketInitializedRef.current = false;
       }
     };
-  }, [authStep, token, userId, socket, loadChats]);
+  }, [
+    authStep,
+    token,
+    userId,
+    socket,
+    loadChats,
+    applyEditedMessage,
+    applyDeletedMessage,
+    upsertMessages,
+    confirmSentMessage,
+    applyReceipt,
+    flushOutbox,
+    catchUpAfterReconnect,
+  ]);
 
   // Cleanup socket ONLY on component unmount (not on dependency changes)
   useEffect(() => {
@@ -817,13 +1698,36 @@ export default function ChatApp() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const renderInspector = (dock: InspectorDock) => (
+    <SocketInspector
+      entries={inspector.entries}
+      isPaused={inspector.isPaused}
+      dock={dock}
+      onTogglePaused={inspector.togglePaused}
+      onClear={inspector.clear}
+      onExport={inspector.exportJson}
+      onReplay={inspector.replay}
+      onDockChange={inspector.setDock}
+      onClose={() => inspector.setDock(null)}
+    />
+  );
+
   return (
-    <div className="flex flex-col h-screen bg-gray-900">
-      {/* Fixed Header with user identity, call button, and connection status */}
-      <div className="fixed top-0 left-0 right-0 z-50 p-4 border-b border-gray-700 bg-gray-800">
+    <div className="relative flex flex-col h-full bg-gray-900">
+      {onRemove && (
+        <button
+          onClick={handleRemovePane}
+          className="absolute top-1 right-1 z-10 w-6 h-6 text-gray-400 text-xs rounded hover:bg-gray-700 hover:text-white transition-colors"
+          title="Remove session"
+        >
+          ✕
+        </button>
+      )}
+      {/* Header with user identity, call button, and connection status */}
+      <div className="shrink-0 p-4 border-b border-gray-700 bg-gray-800">
         <div className="flex items-center justify-between">
           <div>
-            <h2 className="text-lg font-bold text-white">Chat App</h2>
+            <h2 className="text-lg font-bold text-white">{title}</h2>
             {authStep === 'authenticated' && (
               <div className="text-sm text-gray-400">
                 {username || phone} ({userId?.substring(0, 8)}...)
@@ -853,14 +1757,41 @@ export default function ChatApp() {
                 }
                 return null;
               })()}
-              {/* Connection status */}
-              <div className="flex items-center gap-2">
-                <div className={`w-2 h-2 rounded-full ${socket?.isConnected() ? 'bg-green-500' : 'bg-red-500'}`}
-                     title={socket?.isConnected() ? 'Socket Connected' : 'Socket Disconnected'} />
-                <span className="text-xs text-gray-400">
-                  {socket?.isConnected() ? 'Connected' : 'Disconnected'}
-                </span>
-              </div>
+              {/* Socket event inspector toggle */}
+              <button
+                onClick={() => inspector.setDock(inspectorDock ? null : 'bottom')}
+                className={`px-3 py-1.5 text-sm rounded transition-colors ${
+                  inspectorDock ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+                }`}
+                title="Show socket traffic"
+              >
+                🔍 Events
+              </button>
+              {/* Message transport (REST / socket) */}
+              <TransportSelector value={messageTransport} onChange={handleTransportChange} />
+              {/* Connection and sync status */}
+              <SyncStatusIndicator
+                status={syncStatus}
+                queuedCount={outboxItems.length}
+                lastSyncedAt={lastSyncedAt}
+                onRetry={catchUpAfterReconnect}
+              />
+              {/* Clear cache button */}
+              <button
+                onClick={handleClearCache}
+                className="px-3 py-1.5 bg-gray-700 text-gray-200 text-sm rounded hover:bg-gray-600 transition-colors"
+                title="Remove cached chats and messages from this browser"
+              >
+                Clear cache
+              </button>
+              {/* Logout button */}
+              <button
+                onClick={handleLogout}
+                className="px-3 py-1.5 bg-gray-700 text-gray-200 text-sm rounded hover:bg-gray-600 transition-colors"
+                title="Log out"
+              >
+                Log out
+              </button>
             </div>
           )}
         </div>
@@ -868,7 +1799,7 @@ export default function ChatApp() {
 
       {/* Authentication UI */}
       {authStep === 'phone' && (
-        <div className="p-4 space-y-2 mt-[80px]">
+        <div className="p-4 space-y-2">
           <input
             type="text"
             value={phone}
@@ -887,7 +1818,7 @@ export default function ChatApp() {
       )}
 
       {authStep === 'otp' && (
-        <div className="p-4 space-y-2 mt-[80px]">
+        <div className="p-4 space-y-2">
           <div className="text-sm text-gray-400">OTP sent to {phone}</div>
           <input
             type="text"
@@ -908,7 +1839,7 @@ export default function ChatApp() {
 
       {/* Main chat interface */}
       {authStep === 'authenticated' && (
-        <div className="flex flex-1 overflow-hidden mt-[80px]">
+        <div className="flex flex-1 overflow-hidden">
           {/* Chat list sidebar */}
           <div className="w-64 border-r border-gray-700 bg-gray-800 overflow-y-auto flex flex-col">
             <div className="p-2 font-semibold border-b border-gray-700 text-white">
@@ -927,6 +1858,7 @@ export default function ChatApp() {
                     setSearchQuery(value);
                   }
                 }}
+                onKeyDown={handleSearchKeyDown}
                 placeholder="Search by phone or username..."
                 maxLength={100}
                 className="w-full px-3 py-2 border border-gray-600 rounded-lg bg-gray-700 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
@@ -958,15 +1890,21 @@ export default function ChatApp() {
                     )}
                   </div>
                 ) : (
-                  searchResults.map((user) => (
+                  searchResults.map((user, index) => (
                     <div
                       key={user.id}
+                      ref={(el) => {
+                        searchResultRefs.current[index] = el;
+                      }}
                       onClick={() => handleSelectUserFromSearch(user)}
-                      className="p-3 cursor-pointer hover:bg-gray-700 transition-colors border-b border-gray-700"
+                      onMouseEnter={() => setActiveResultIndex(index)}
+                      className={`p-3 cursor-pointer hover:bg-gray-700 transition-colors border-b border-gray-700 ${
+                        index === activeResultIndex ? 'bg-gray-700' : ''
+                      }`}
                     >
                       <div className="flex items-center justify-between">
                         <div className="font-medium text-white">
-                          {user.username || user.phone}
+                          <HighlightedText text={user.username || user.phone} query={searchQuery} />
                         </div>
                         {user.isOnline && (
                           <div className="w-2 h-2 bg-green-500 rounded-full" title="Online" />
@@ -974,7 +1912,9 @@ export default function ChatApp() {
                       </div>
                       <div className="flex items-center gap-2 mt-1">
                         {user.username && (
-                          <div className="text-xs text-gray-400">{user.phone}</div>
+                          <div className="text-xs text-gray-400">
+                            <HighlightedText text={user.phone} query={searchQuery} />
+                          </div>
                         )}
                         {!user.isOnline && user.lastSeen && (
                           <div className="text-xs text-gray-500">
@@ -988,6 +1928,11 @@ export default function ChatApp() {
               </div>
             )}
 
+            {/* Contacts */}
+            {token && (
+              <ContactsPanel token={token} onStartChat={handleCreateOrSelectChat} />
+            )}
+
             {/* Previous chats */}
             <div className="flex-1 overflow-y-auto">
               {(!Array.isArray(chats) || chats.length === 0) && !showSearchResults ? (
@@ -1008,6 +1953,7 @@ export default function ChatApp() {
 
                     const chatName = otherUser.username || otherUser.phone || 'Unknown';
                     const chatIdToUse = chat.chatId || chat.id;
+                    const queuedCount = outboxItems.filter((item) => item.chatId === chatIdToUse).length;
 
                     return (
                       <div
@@ -1019,13 +1965,25 @@ export default function ChatApp() {
                       >
                         <div className="flex items-center justify-between">
                           <div className="font-medium text-white">{chatName}</div>
-                          {chat.otherParticipant?.isOnline && (
-                            <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                          )}
+                          <div className="flex items-center gap-2">
+                            {queuedCount > 0 && (
+                              <span
+                                className="px-1.5 py-0.5 text-xs bg-yellow-700 text-yellow-100 rounded"
+                                title={`${queuedCount} message${queuedCount === 1 ? '' : 's'} waiting to be sent`}
+                              >
+                                📤 {queuedCount}
+                              </span>
+                            )}
+                            {chat.otherParticipant?.isOnline && (
+                              <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+                            )}
+                          </div>
                         </div>
                         {chat.lastMessage && (
                           <div className="text-sm text-gray-400 truncate mt-1">
-                            {chat.lastMessage.content}
+                            {chat.lastMessage.isDeleted
+                              ? `🚫 ${DELETED_MESSAGE_TEXT}`
+                              : getMessagePreview(chat.lastMessage.type, chat.lastMessage.content)}
                           </div>
                         )}
                         {chat.lastMessageAt && (
@@ -1053,13 +2011,23 @@ export default function ChatApp() {
                     {errorMessage}
                   </div>
                 )}
+                {/* Keyed by chat: drafts, staged attachments and edits belong to one chat */}
                 <ChatWindow
+                  key={selectedChatId}
                   messages={messages}
                   callHistory={callHistory}
                   currentUserId={userId!}
                   otherUserName={otherUserName || undefined}
                   onSendMessage={handleSendMessage}
-                  disabled={!socket?.isConnected() || isSendingMessage}
+                  onEditMessage={handleEditMessage}
+                  onDeleteMessage={handleDeleteMessage}
+                  hasMoreMessages={hasMoreMessages}
+                  isLoadingOlderMessages={isLoadingOlderMessages}
+                  onLoadOlderMessages={loadOlderMessages}
+                  onSendVoiceNote={handleSendVoiceNote}
+                  onSendAttachment={handleSendMedia}
+                  onRetryMessage={handleRetryMessage}
+                  onDiscardMessage={handleDiscardMessage}
                 />
               </>
             ) : (
@@ -1068,9 +2036,13 @@ export default function ChatApp() {
               </div>
             )}
           </div>
+
+          {inspectorDock === 'right' && renderInspector('right')}
         </div>
       )}
 
+      {authStep === 'authenticated' && inspectorDock === 'bottom' && renderInspector('bottom')}
+
       {/* Voice Call Component */}
       {authStep === 'authenticated' && (
         <VoiceCallComponent
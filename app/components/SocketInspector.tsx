@@ -0,0 +1,196 @@
+/**
+ * SocketInspector Component
+ *
+ * Dockable panel (bottom or right of the session) listing recorded socket
+ * traffic, newest first: time, direction, event name and chat, with the
+ * payload shown on click. Supports filtering by event name or chat ID,
+ * pausing, clearing, exporting the filtered entries to JSON and replaying
+ * an outbound event.
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { getErrorMessage } from '../api/errors';
+import { InspectorDock, getTrafficChatId } from '../hooks/useSocketInspector';
+import { SocketTrafficEntry } from '../sockets/chatSocket';
+
+interface SocketInspectorProps {
+  entries: SocketTrafficEntry[];
+  isPaused: boolean;
+  dock: InspectorDock;
+  onTogglePaused: () => void;
+  onClear: () => void;
+  onExport: (entries: SocketTrafficEntry[]) => void;
+  onReplay: (entry: SocketTrafficEntry) => void; // throws when the event can't be sent
+  onDockChange: (dock: InspectorDock) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return `${date.toLocaleTimeString([], { hour12: false })}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+};
+
+export default function SocketInspector({
+  entries,
+  isPaused,
+  dock,
+  onTogglePaused,
+  onClear,
+  onExport,
+  onReplay,
+  onDockChange,
+  onClose,
+}: SocketInspectorProps) {
+  const [eventFilter, setEventFilter] = useState('');
+  const [chatFilter, setChatFilter] = useState('');
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  const visibleEntries = useMemo(() => {
+    const eventQuery = eventFilter.trim().toLowerCase();
+    const chatQuery = chatFilter.trim();
+    return entries
+      .filter((entry) => !eventQuery || entry.event.toLowerCase().includes(eventQuery))
+      .filter((entry) => !chatQuery || getTrafficChatId(entry)?.includes(chatQuery))
+      .reverse();
+  }, [entries, eventFilter, chatFilter]);
+
+  const handleReplay = (entry: SocketTrafficEntry) => {
+    setReplayError(null);
+    try {
+      onReplay(entry);
+    } catch (error) {
+      setReplayError(getErrorMessage(error, 'Failed to replay event'));
+    }
+  };
+
+  const dockClasses = dock === 'right' ? 'w-96 border-l' : 'h-64 border-t';
+
+  return (
+    <div className={`shrink-0 flex flex-col bg-gray-900 border-gray-700 text-xs ${dockClasses}`}>
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 p-2 border-b border-gray-700 bg-gray-800">
+        <span className="font-semibold text-white">Socket events</span>
+        <span className="text-gray-400">
+          {visibleEntries.length}/{entries.length}
+          {isPaused && ' · paused'}
+        </span>
+        <input
+          type="text"
+          value={eventFilter}
+          onChange={(e) => setEventFilter(e.target.value)}
+          placeholder="Event"
+          className="w-28 px-2 py-1 rounded bg-gray-700 text-white placeholder-gray-400 border border-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+        <input
+          type="text"
+          value={chatFilter}
+          onChange={(e) => setChatFilter(e.target.value)}
+          placeholder="Chat ID"
+          className="w-28 px-2 py-1 rounded bg-gray-700 text-white placeholder-gray-400 border border-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+        <div className="flex items-center gap-1 ml-auto">
+          <button
+            onClick={onTogglePaused}
+            className="px-2 py-1 rounded bg-gray-700 text-gray-200 hover:bg-gray-600"
+            title={isPaused ? 'Resume recording' : 'Stop recording new events'}
+          >
+            {isPaused ? '▶️ Resume' : '⏸️ Pause'}
+          </button>
+          <button
+            onClick={onClear}
+            className="px-2 py-1 rounded bg-gray-700 text-gray-200 hover:bg-gray-600"
+            title="Remove all recorded events"
+          >
+            Clear
+          </button>
+          <button
+            onClick={() => onExport(visibleEntries)}
+            disabled={visibleEntries.length === 0}
+            className="px-2 py-1 rounded bg-gray-700 text-gray-200 enabled:hover:bg-gray-600 disabled:opacity-50"
+            title="Download the listed events as JSON"
+          >
+            Export
+          </button>
+          <button
+            onClick={() => onDockChange(dock === 'right' ? 'bottom' : 'right')}
+            className="px-2 py-1 rounded bg-gray-700 text-gray-200 hover:bg-gray-600"
+            title={dock === 'right' ? 'Dock to the bottom' : 'Dock to the right'}
+          >
+            {dock === 'right' ? '⬇️' : '➡️'}
+          </button>
+          <button
+            onClick={onClose}
+            className="px-2 py-1 rounded bg-gray-700 text-gray-200 hover:bg-gray-600"
+            title="Close inspector"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      {replayError && (
+        <div className="px-2 py-1 bg-red-900/50 border-b border-red-700 text-red-200">{replayError}</div>
+      )}
+
+      {/* Entries, newest first */}
+      <div className="flex-1 overflow-y-auto font-mono">
+        {visibleEntries.length === 0 ? (
+          <div className="p-3 text-center text-gray-500">
+            {entries.length === 0 ? 'No socket events recorded yet' : 'No events match the filters'}
+          </div>
+        ) : (
+          visibleEntries.map((entry) => {
+            const chatId = getTrafficChatId(entry);
+            const isExpanded = expandedId === entry.id;
+
+            return (
+              <div key={entry.id} className="border-b border-gray-800">
+                <div
+                  onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                  className="flex items-center gap-2 px-2 py-1 cursor-pointer hover:bg-gray-800"
+                >
+                  <span className="text-gray-500">{formatTime(entry.timestamp)}</span>
+                  <span
+                    className={entry.direction === 'out' ? 'text-blue-400' : 'text-green-400'}
+                    title={entry.direction === 'out' ? 'Client → Server' : 'Server → Client'}
+                  >
+                    {entry.direction === 'out' ? '↑' : '↓'}
+                  </span>
+                  <span className="text-gray-200 truncate">
+                    {entry.event}
+                    {entry.replayed && <span className="text-yellow-400"> (replayed)</span>}
+                  </span>
+                  {chatId && (
+                    <span className="text-gray-500 truncate" title={chatId}>
+                      {chatId}
+                    </span>
+                  )}
+                  {entry.direction === 'out' && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleReplay(entry);
+                      }}
+                      className="ml-auto px-1.5 rounded bg-gray-700 text-gray-200 hover:bg-gray-600"
+                      title="Emit this event again"
+                    >
+                      🔁
+                    </button>
+                  )}
+                </div>
+                {isExpanded && (
+                  <pre className="px-2 pb-2 text-gray-300 whitespace-pre-wrap break-all">
+                    {JSON.stringify(entry.payload, null, 2) ?? 'undefined'}
+                  </pre>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+/**
+ * Split Screen Component
+ *
+ * Mounts several independent ChatApp panes side by side so one developer
+ * can drive both ends of a conversation or call from a single browser tab.
+ * Each pane uses its own storage key, so sessions survive reloads separately.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import ChatApp from './SessionPanel';
+import { getTransportStorageKey } from './TransportSelector';
+
+// Storage key of the first pane (kept for sessions saved before split screen existed)
+const DEFAULT_STORAGE_KEY = 'chat_session';
+
+// localStorage key holding the list of open panes
+const PANES_STORAGE_KEY = 'chat_panes';
+
+const MAX_PANES = 4;
+
+/**
+ * Pick the lowest unused storage key: chat_session, chat_session_2, chat_session_3, ...
+ */
+const nextStorageKey = (panes: string[]): string => {
+  if (!panes.includes(DEFAULT_STORAGE_KEY)) {
+    return DEFAULT_STORAGE_KEY;
+  }
+  let index = 2;
+  while (panes.includes(`${DEFAULT_STORAGE_KEY}_${index}`)) {
+    index++;
+  }
+  return `${DEFAULT_STORAGE_KEY}_${index}`;
+};
+
+export default function SplitScreen() {
+  // Each pane is identified by its storage key
+  const [panes, setPanes] = useState<string[]>([DEFAULT_STORAGE_KEY, `${DEFAULT_STORAGE_KEY}_2`]);
+  const [restored, setRestored] = useState(false);
+
+  // Restore open panes from localStorage on mount
+  useEffect(() => {
+    const restorePanes = () => {
+      try {
+        const savedPanes = localStorage.getItem(PANES_STORAGE_KEY);
+        if (savedPanes) {
+          const parsed = JSON.parse(savedPanes);
+          if (Array.isArray(parsed) && parsed.length > 0 && parsed.every((p) => typeof p === 'string')) {
+            setPanes(parsed.slice(0, MAX_PANES));
+          }
+        }
+      } catch (error) {
+        console.error('Failed to restore panes:', error);
+        localStorage.removeItem(PANES_STORAGE_KEY);
+      } finally {
+        setRestored(true);
+      }
+    };
+
+    restorePanes();
+  }, []);
+
+  // Save open panes whenever they change (after restore, to avoid overwriting saved panes)
+  useEffect(() => {
+    if (restored) {
+      localStorage.setItem(PANES_STORAGE_KEY, JSON.stringify(panes));
+    }
+  }, [panes, restored]);
+
+  const handleAddPane = () => {
+    setPanes((prev) => (prev.length >= MAX_PANES ? prev : [...prev, nextStorageKey(prev)]));
+  };
+
+  /**
+   * Remove a pane and discard its saved session and settings
+   * Called by the pane once it has ended any call; unmounting it then
+   * disconnects its socket
+   */
+  const handleRemovePane = (storageKey: string) => {
+    setPanes((prev) => (prev.length <= 1 ? prev : prev.filter((key) => key !== storageKey)));
+    localStorage.removeItem(storageKey);
+    localStorage.removeItem(getTransportStorageKey(storageKey));
+  };
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-950">
+      {/* Pane controls */}
+      <div className="shrink-0 flex items-center justify-between px-4 py-2 border-b border-gray-800 bg-gray-950">
+        <span className="text-sm text-gray-400">
+          {panes.length} session{panes.length === 1 ? '' : 's'}
+        </span>
+        <button
+          onClick={handleAddPane}
+          disabled={panes.length >= MAX_PANES}
+          className="px-3 py-1 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+          title={panes.length >= MAX_PANES ? `At most ${MAX_PANES} sessions` : 'Add session'}
+        >
+          + Add session
+        </button>
+      </div>
+
+      {/* Panes */}
+      {restored && (
+        <div className="flex flex-1 overflow-hidden">
+          {panes.map((storageKey, index) => (
+            <div
+              key={storageKey}
+              className="relative flex-1 min-w-0 flex flex-col border-r border-gray-800 last:border-r-0"
+            >
+              <div className="flex-1 min-h-0">
+                <ChatApp
+                  storageKey={storageKey}
+                  title={`Session ${index + 1}`}
+                  onRemove={panes.length > 1 ? () => handleRemovePane(storageKey) : undefined}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
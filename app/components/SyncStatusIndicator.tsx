@@ -0,0 +1,58 @@
+/**
+ * SyncStatusIndicator Component
+ *
+ * Shows whether the session is live and up to date:
+ * connecting → offline (socket down, with queued message count) → syncing
+ * (catching up after a reconnect) → up to date. A failed catch-up can be
+ * retried by clicking the indicator.
+ */
+
+export type SyncStatus = 'connecting' | 'offline' | 'syncing' | 'synced' | 'error';
+
+interface SyncStatusIndicatorProps {
+  status: SyncStatus;
+  queuedCount?: number; // messages waiting in the outbox
+  lastSyncedAt?: string | null;
+  onRetry?: () => void;
+}
+
+const STATUS_STYLES: Record<SyncStatus, { dot: string; label: string }> = {
+  connecting: { dot: 'bg-yellow-500 animate-pulse', label: 'Connecting...' },
+  offline: { dot: 'bg-red-500', label: 'Offline' },
+  syncing: { dot: 'bg-blue-500 animate-pulse', label: 'Syncing...' },
+  synced: { dot: 'bg-green-500', label: 'Up to date' },
+  error: { dot: 'bg-orange-500', label: 'Sync failed - retry' },
+};
+
+export default function SyncStatusIndicator({
+  status,
+  queuedCount = 0,
+  lastSyncedAt,
+  onRetry,
+}: SyncStatusIndicatorProps) {
+  const { dot, label } = STATUS_STYLES[status];
+  const canRetry = status === 'error' && !!onRetry;
+
+  const title = [
+    label,
+    queuedCount > 0 ? `${queuedCount} message${queuedCount === 1 ? '' : 's'} waiting to be sent` : null,
+    lastSyncedAt ? `Last synced ${new Date(lastSyncedAt).toLocaleTimeString()}` : null,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return (
+    <button
+      onClick={canRetry ? onRetry : undefined}
+      disabled={!canRetry}
+      className="flex items-center gap-2 px-1 rounded enabled:hover:bg-gray-700 disabled:cursor-default"
+      title={title}
+    >
+      <span className={`w-2 h-2 rounded-full ${dot}`} />
+      <span className="text-xs text-gray-400">
+        {label}
+        {queuedCount > 0 && ` · ${queuedCount} queued`}
+      </span>
+    </button>
+  );
+}
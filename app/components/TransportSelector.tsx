@@ -0,0 +1,56 @@
+/**
+ * TransportSelector Component
+ *
+ * Picks how the composer sends messages, so both backend code paths can be
+ * exercised from the UI:
+ * - REST: POST /api/v1/messages
+ * - Socket: message:send, waiting for the server's ack (fails without one)
+ * - Socket + fallback: message:send, falling back to REST when the socket is
+ *   down (a message already emitted is never re-sent over REST - a missing
+ *   ack leaves it pending until the server's echo confirms it, or until a
+ *   lookup finds it or marks it failed)
+ *
+ * Messages queued in the offline outbox are always flushed over REST.
+ */
+
+export type MessageTransport = 'rest' | 'socket' | 'socket-fallback';
+
+export const DEFAULT_MESSAGE_TRANSPORT: MessageTransport = 'rest';
+
+const TRANSPORT_LABELS: Record<MessageTransport, string> = {
+  rest: 'REST',
+  socket: 'Socket',
+  'socket-fallback': 'Socket + REST fallback',
+};
+
+export const isMessageTransport = (value: unknown): value is MessageTransport =>
+  typeof value === 'string' && Object.hasOwn(TRANSPORT_LABELS, value);
+
+// localStorage key of a pane's transport, next to its session key
+export const getTransportStorageKey = (sessionStorageKey: string) => `${sessionStorageKey}_transport`;
+
+interface TransportSelectorProps {
+  value: MessageTransport;
+  onChange: (transport: MessageTransport) => void;
+}
+
+export default function TransportSelector({ value, onChange }: TransportSelectorProps) {
+  return (
+    <label className="flex items-center gap-1 text-xs text-gray-400" title="How new messages are sent">
+      Send via
+      <select
+        value={value}
+        onChange={(e) => {
+          if (isMessageTransport(e.target.value)) onChange(e.target.value);
+        }}
+        className="px-1 py-0.5 rounded bg-gray-700 text-gray-200 text-xs border border-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
+      >
+        {(Object.keys(TRANSPORT_LABELS) as MessageTransport[]).map((transport) => (
+          <option key={transport} value={transport}>
+            {TRANSPORT_LABELS[transport]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
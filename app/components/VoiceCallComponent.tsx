@@ -8,6 +8,7 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { useVoiceCall, CallState } from '../hooks/useVoiceCall';
+import { useMicLevel } from '../hooks/useMicLevel';
 import { ChatSocket } from '../sockets/chatSocket';
 
 interface VoiceCallComponentProps {
@@ -32,11 +33,11 @@ export default function VoiceCallComponent({
   const localAudioRef = useRef<HTMLAudioElement>(null);
   const remoteAudioRef = useRef<HTMLAudioElement>(null);
   const [callDuration, setCallDuration] = useState(0);
-  const [micLevel, setMicLevel] = useState(0);
   const durationIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const animationFrameRef = useRef<number | null>(null);
+
+  // Mic level detection (only while the call is in progress)
+  const isInProgress = callState.status === 'connected' || callState.status === 'answered';
+  const micLevel = useMicLevel(isInProgress ? callState.localStream : null);
 
   // Update audio elements when streams change
   useEffect(() => {
@@ -74,87 +75,6 @@ export default function VoiceCallComponent({
     };
   }, [callState.status]);
 
-  // Mic level detection and animation
-  useEffect(() => {
-    if (callState.localStream && (callState.status === 'connected' || callState.status === 'answered')) {
-      // Clean up any existing AudioContext first
-      if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-        try {
-          audioContextRef.current.close();
-        } catch (error) {
-          console.warn('⚠️ [VOICECALL] Error closing existing AudioContext:', error);
-        }
-      }
-
-      // Create audio context for analyzing mic input
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const analyser = audioContext.createAnalyser();
-      analyser.fftSize = 256;
-      analyser.smoothingTimeConstant = 0.8;
-
-      const source = audioContext.createMediaStreamSource(callState.localStream);
-      source.connect(analyser);
-
-      audioContextRef.current = audioContext;
-      analyserRef.current = analyser;
-
-      const dataArray = new Uint8Array(analyser.frequencyBinCount);
-
-      const updateMicLevel = () => {
-        if (analyserRef.current) {
-          analyserRef.current.getByteFrequencyData(dataArray);
-
-          // Calculate average volume
-          let sum = 0;
-          for (let i = 0; i < dataArray.length; i++) {
-            sum += dataArray[i];
-          }
-          const average = sum / dataArray.length;
-
-          // Normalize to 0-100
-          const level = Math.min(100, (average / 255) * 100);
-          setMicLevel(level);
-
-          animationFrameRef.current = requestAnimationFrame(updateMicLevel);
-        }
-      };
-
-      updateMicLevel();
-    } else {
-      // Cleanup
-      setMicLevel(0);
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-        animationFrameRef.current = null;
-      }
-      if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-        try {
-          audioContextRef.current.close();
-        } catch (error) {
-          console.warn('⚠️ [VOICECALL] Error closing AudioContext:', error);
-        }
-        audioContextRef.current = null;
-      }
-      analyserRef.current = null;
-    }
-
-    return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-        animationFrameRef.current = null;
-      }
-      if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-        try {
-          audioContextRef.current.close();
-        } catch (error) {
-          console.warn('⚠️ [VOICECALL] Error closing AudioContext in cleanup:', error);
-        }
-        audioContextRef.current = null;
-      }
-      analyserRef.current = null;
-    };
-  }, [callState.localStream, callState.status]);
-
   // Format duration as MM:SS
   const formatDuration = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
@@ -168,7 +88,7 @@ export default function VoiceCallComponent({
   }
 
   return (
-    <div className="fixed bottom-4 right-4 bg-gray-800 border border-gray-700 rounded-lg p-4 shadow-lg z-50 min-w-[300px]">
+    <div className="absolute bottom-4 right-4 bg-gray-800 border border-gray-700 rounded-lg p-4 shadow-lg z-50 min-w-[300px]">
       {/* Hidden audio elements */}
       <audio ref={localAudioRef} autoPlay muted />
       <audio ref={remoteAudioRef} autoPlay />
@@ -0,0 +1,181 @@
+/**
+ * React Hook for Attachment Staging
+ *
+ * Holds files dropped or pasted into the chat until they are sent:
+ * validates them up front, keeps previews, captions and upload progress,
+ * and sends them one by one in the order they were added.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ApiError, getErrorMessage } from '../api/errors';
+import {
+  MediaMessageType,
+  UploadMediaOptions,
+  getMediaMessageType,
+  validateMediaFile,
+} from '../api/media';
+
+export type AttachmentStatus = 'staged' | 'uploading' | 'failed';
+
+export interface StagedAttachment {
+  id: string;
+  file: File;
+  type: MediaMessageType;
+  previewUrl?: string; // object URL for images and videos
+  caption: string;
+  status: AttachmentStatus;
+  progress: number; // 0-100
+  error?: string;
+}
+
+export type SendAttachment = (
+  file: File,
+  options: Pick<UploadMediaOptions, 'type' | 'caption' | 'onProgress' | 'signal'>
+) => Promise<void>;
+
+// Attachments are sent as image, video or file messages; audio files go out as files
+const getAttachmentType = (file: File): MediaMessageType => {
+  const type = getMediaMessageType(file.type);
+  return type === 'voice' ? 'file' : type;
+};
+
+let attachmentCounter = 0;
+
+export function useAttachments() {
+  const [attachments, setAttachments] = useState<StagedAttachment[]>([]);
+  const [rejections, setRejections] = useState<string[]>([]);
+  const [isSending, setIsSending] = useState(false);
+
+  // Mirrors of state for use outside render (abort + cleanup)
+  const attachmentsRef = useRef<StagedAttachment[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    attachmentsRef.current = attachments;
+  }, [attachments]);
+
+  const updateAttachment = (id: string, changes: Partial<StagedAttachment>) => {
+    setAttachments((prev) => prev.map((a) => (a.id === id ? { ...a, ...changes } : a)));
+  };
+
+  const releaseAttachment = (attachment: StagedAttachment) => {
+    controllersRef.current.get(attachment.id)?.abort();
+    controllersRef.current.delete(attachment.id);
+    if (attachment.previewUrl) {
+      URL.revokeObjectURL(attachment.previewUrl);
+    }
+  };
+
+  /**
+   * Stage files, rejecting oversized or disallowed ones before any upload
+   */
+  const addFiles = useCallback((files: File[]) => {
+    const accepted: StagedAttachment[] = [];
+    const rejected: string[] = [];
+
+    files.forEach((file) => {
+      const type = getAttachmentType(file);
+      try {
+        validateMediaFile(file, type);
+      } catch (error) {
+        rejected.push(`${file.name}: ${getErrorMessage(error, 'File not allowed')}`);
+        return;
+      }
+
+      accepted.push({
+        id: `attachment-${Date.now()}-${attachmentCounter++}`,
+        file,
+        type,
+        previewUrl: type === 'image' || type === 'video' ? URL.createObjectURL(file) : undefined,
+        caption: '',
+        status: 'staged',
+        progress: 0,
+      });
+    });
+
+    if (accepted.length > 0) {
+      setAttachments((prev) => [...prev, ...accepted]);
+    }
+    setRejections(rejected);
+  }, []);
+
+  /**
+   * Remove a staged attachment (cancels its upload if in progress)
+   */
+  const removeAttachment = useCallback((id: string) => {
+    const attachment = attachmentsRef.current.find((a) => a.id === id);
+    if (attachment) {
+      releaseAttachment(attachment);
+    }
+    setAttachments((prev) => prev.filter((a) => a.id !== id));
+  }, []);
+
+  const setCaption = useCallback((id: string, caption: string) => {
+    updateAttachment(id, { caption });
+  }, []);
+
+  const dismissRejections = useCallback(() => setRejections([]), []);
+
+  /**
+   * Send all staged attachments in order
+   * Successful ones leave the tray; failed ones stay with their error for retry
+   */
+  const sendAll = useCallback(async (send: SendAttachment) => {
+    const queue = attachmentsRef.current.filter((a) => a.status !== 'uploading');
+    if (queue.length === 0) return;
+
+    setIsSending(true);
+    try {
+      for (const attachment of queue) {
+        // Removed while earlier items were uploading
+        if (!attachmentsRef.current.some((a) => a.id === attachment.id)) continue;
+
+        const controller = new AbortController();
+        controllersRef.current.set(attachment.id, controller);
+        updateAttachment(attachment.id, { status: 'uploading', progress: 0, error: undefined });
+
+        try {
+          await send(attachment.file, {
+            type: attachment.type,
+            caption: attachmentsRef.current.find((a) => a.id === attachment.id)?.caption.trim() || undefined,
+            signal: controller.signal,
+            onProgress: (progress) => updateAttachment(attachment.id, { progress: progress.percent }),
+          });
+          controllersRef.current.delete(attachment.id);
+          if (attachment.previewUrl) {
+            URL.revokeObjectURL(attachment.previewUrl);
+          }
+          setAttachments((prev) => prev.filter((a) => a.id !== attachment.id));
+        } catch (error) {
+          controllersRef.current.delete(attachment.id);
+          // Cancelled by removeAttachment - nothing left to update
+          if (error instanceof ApiError && error.kind === 'aborted') continue;
+          updateAttachment(attachment.id, {
+            status: 'failed',
+            error: getErrorMessage(error, 'Upload failed'),
+          });
+        }
+      }
+    } finally {
+      setIsSending(false);
+    }
+  }, []);
+
+  // Cancel uploads and release previews on unmount
+  useEffect(() => {
+    return () => {
+      attachmentsRef.current.forEach(releaseAttachment);
+    };
+  }, []);
+
+  return {
+    attachments,
+    rejections,
+    isSending,
+    addFiles,
+    removeAttachment,
+    setCaption,
+    dismissRejections,
+    sendAll,
+  };
+}
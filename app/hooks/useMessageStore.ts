@@ -0,0 +1,207 @@
+/**
+ * React Hook for the Message Store
+ *
+ * Single source of truth for the messages of the open chat. A sent message
+ * can reach us three ways (REST response, message:sent, message:new) and
+ * history pages can overlap, so every write is an upsert keyed by message ID.
+ *
+ * Conflict rules when two copies of the same message meet:
+ * - Never duplicated: same ID → merged into one entry
+ * - Pending copies (temporary client ID) are replaced by the confirmed copy,
+ *   which keeps the client ID so the UI can keep a stable key
+ * - Status only moves forward: sent → delivered → read
+ * - Content and updatedAt come from whichever copy has the later updatedAt
+ *   (ties go to the incoming copy), so a stale payload can't undo an edit
+ * - Deleted for everyone is final
+ * - Fields missing from a payload never erase known values
+ */
+
+import { useMemo, useReducer } from 'react';
+import { Message } from '../api/messages';
+
+type MessageMap = Map<string, Message>;
+
+type MessageStoreAction =
+  | { type: 'reset'; messages: Message[] }
+  | { type: 'upsert'; messages: Message[] }
+  | { type: 'confirm'; message: Message; clientId?: string }
+  | { type: 'addPending'; message: Message }
+  | { type: 'setSendState'; clientId: string; sendState: Message['sendState'] }
+  | { type: 'remove'; id: string }
+  | { type: 'markDeleted'; id: string }
+  | { type: 'receipt'; status: 'delivered' | 'read'; senderId: string };
+
+const toTime = (date?: string): number => (date ? new Date(date).getTime() || 0 : 0);
+
+// Copy only the fields the payload actually carries
+const withoutUndefined = (message: Message): Partial<Message> =>
+  Object.fromEntries(Object.entries(message).filter(([, value]) => value !== undefined)) as Partial<Message>;
+
+/**
+ * Merge two copies of the same message following the rules above
+ */
+export const mergeMessage = (existing: Message, incoming: Message): Message => {
+  const incomingIsNewer = toTime(incoming.updatedAt) >= toTime(existing.updatedAt);
+  const merged: Message = incomingIsNewer
+    ? { ...existing, ...withoutUndefined(incoming) }
+    : { ...incoming, ...withoutUndefined(existing) };
+
+  const isDeleted = existing.isDeleted || incoming.isDeleted;
+  const isRead = existing.isRead || incoming.isRead;
+
+  return {
+    ...merged,
+    isRead,
+    isDelivered: isRead || existing.isDelivered || incoming.isDelivered,
+    isDeleted: isDeleted || undefined,
+    content: isDeleted ? '' : merged.content,
+    clientId: existing.clientId || incoming.clientId,
+    // A confirmed copy on either side means the server has it
+    sendState: existing.sendState && incoming.sendState ? incoming.sendState : undefined,
+  };
+};
+
+const upsertInto = (entries: MessageMap, message: Message) => {
+  const existing = entries.get(message.id);
+  entries.set(message.id, existing ? mergeMessage(existing, message) : message);
+};
+
+/**
+ * Find the pending copy a confirmation belongs to - by client ID, or for
+ * socket payloads that don't carry one, the oldest pending message with the
+ * same chat, type and content. A confirmation whose server copy is already
+ * stored (e.g. the REST response came first) matches nothing, so a late echo
+ * can't claim another pending message with identical content.
+ */
+const findPendingKey = (entries: MessageMap, confirmed: Message, clientId?: string): string | undefined => {
+  if (!clientId && entries.has(confirmed.id)) return undefined;
+
+  let match: Message | undefined;
+  entries.forEach((message) => {
+    const isMatch = clientId
+      ? message.clientId === clientId && message.id === clientId
+      : (message.sendState === 'pending' || message.sendState === 'queued') &&
+        message.chatId === confirmed.chatId &&
+        message.type === confirmed.type &&
+        message.content === confirmed.content;
+    if (isMatch && (!match || toTime(message.createdAt) < toTime(match.createdAt))) {
+      match = message;
+    }
+  });
+  return match?.id;
+};
+
+export const messageStoreReducer = (state: MessageMap, action: MessageStoreAction): MessageMap => {
+  switch (action.type) {
+    case 'reset': {
+      const entries: MessageMap = new Map();
+      action.messages.forEach((message) => upsertInto(entries, message));
+      return entries;
+    }
+
+    case 'upsert': {
+      const entries = new Map(state);
+      action.messages.forEach((message) => upsertInto(entries, message));
+      return entries;
+    }
+
+    case 'confirm': {
+      const entries = new Map(state);
+      const pendingKey = findPendingKey(entries, action.message, action.clientId);
+      const pending = pendingKey ? entries.get(pendingKey) : undefined;
+      if (pendingKey) {
+        entries.delete(pendingKey);
+      }
+      // Server timestamps replace the client's guess
+      upsertInto(entries, { ...action.message, clientId: pending?.clientId ?? action.message.clientId });
+      return entries;
+    }
+
+    case 'addPending': {
+      const entries = new Map(state);
+      entries.set(action.message.id, action.message);
+      return entries;
+    }
+
+    case 'setSendState': {
+      const pending = state.get(action.clientId);
+      if (!pending?.sendState) return state; // already confirmed or gone
+      const entries = new Map(state);
+      entries.set(action.clientId, { ...pending, sendState: action.sendState });
+      return entries;
+    }
+
+    case 'remove': {
+      const key = state.has(action.id)
+        ? action.id
+        : Array.from(state.values()).find((m) => m.clientId === action.id)?.id;
+      if (!key) return state;
+      const entries = new Map(state);
+      entries.delete(key);
+      return entries;
+    }
+
+    case 'markDeleted': {
+      const message = state.get(action.id);
+      if (!message || message.isDeleted) return state;
+      const entries = new Map(state);
+      entries.set(action.id, { ...message, content: '', isDeleted: true });
+      return entries;
+    }
+
+    case 'receipt': {
+      let changed = false;
+      const entries = new Map(state);
+      entries.forEach((message, key) => {
+        if (message.senderId !== action.senderId || message.sendState) return;
+        const alreadyThere = action.status === 'read' ? message.isRead : message.isDelivered;
+        if (alreadyThere) return;
+        changed = true;
+        entries.set(key, {
+          ...message,
+          isDelivered: true,
+          isRead: message.isRead || action.status === 'read',
+        });
+      });
+      return changed ? entries : state;
+    }
+  }
+};
+
+export function useMessageStore() {
+  const [entries, dispatch] = useReducer(messageStoreReducer, undefined, () => new Map<string, Message>());
+
+  // Oldest first; ties broken by ID so the order is stable
+  const messages = useMemo(
+    () =>
+      Array.from(entries.values()).sort(
+        (a, b) => toTime(a.createdAt) - toTime(b.createdAt) || a.id.localeCompare(b.id)
+      ),
+    [entries]
+  );
+
+  const actions = useMemo(
+    () => ({
+      // Replace everything (chat opened or session cleared)
+      resetMessages: (messages: Message[]) => dispatch({ type: 'reset', messages }),
+      // Add or merge server messages (history pages, incoming, edits)
+      upsertMessages: (messages: Message | Message[]) =>
+        dispatch({ type: 'upsert', messages: Array.isArray(messages) ? messages : [messages] }),
+      // Server confirmed one of our sends
+      confirmSentMessage: (message: Message, clientId?: string) =>
+        dispatch({ type: 'confirm', message, clientId }),
+      addPendingMessage: (message: Message) => dispatch({ type: 'addPending', message }),
+      setMessageSendState: (clientId: string, sendState: Message['sendState']) =>
+        dispatch({ type: 'setSendState', clientId, sendState }),
+      // By server ID or client ID
+      removeMessage: (id: string) => dispatch({ type: 'remove', id }),
+      markMessageDeleted: (id: string) => dispatch({ type: 'markDeleted', id }),
+      // Mark messages from senderId as delivered/read
+      applyReceipt: (status: 'delivered' | 'read', senderId: string) =>
+        dispatch({ type: 'receipt', status, senderId }),
+    }),
+    []
+  );
+
+  return { messages, ...actions };
+}
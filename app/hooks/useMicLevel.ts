@@ -0,0 +1,61 @@
+/**
+ * React Hook for Microphone Level
+ *
+ * Analyses a MediaStream with an AnalyserNode and reports its volume (0-100)
+ * on every animation frame. Used by the call UI and the voice note recorder.
+ */
+
+import { useEffect, useState } from 'react';
+
+export function useMicLevel(stream: MediaStream | null): number {
+  const [micLevel, setMicLevel] = useState(0);
+
+  useEffect(() => {
+    if (!stream) return;
+
+    // Create audio context for analyzing mic input
+    const audioContext = new (window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 256;
+    analyser.smoothingTimeConstant = 0.8;
+
+    const source = audioContext.createMediaStreamSource(stream);
+    source.connect(analyser);
+
+    const dataArray = new Uint8Array(analyser.frequencyBinCount);
+    let animationFrame: number | null = null;
+
+    const updateMicLevel = () => {
+      analyser.getByteFrequencyData(dataArray);
+
+      // Calculate average volume
+      let sum = 0;
+      for (let i = 0; i < dataArray.length; i++) {
+        sum += dataArray[i];
+      }
+      const average = sum / dataArray.length;
+
+      // Normalize to 0-100
+      setMicLevel(Math.min(100, (average / 255) * 100));
+
+      animationFrame = requestAnimationFrame(updateMicLevel);
+    };
+
+    updateMicLevel();
+
+    return () => {
+      if (animationFrame !== null) {
+        cancelAnimationFrame(animationFrame);
+      }
+      source.disconnect();
+      if (audioContext.state !== 'closed') {
+        audioContext.close().catch((error) => {
+          console.warn('⚠️ [MICLEVEL] Error closing AudioContext:', error);
+        });
+      }
+    };
+  }, [stream]);
+
+  // Report silence while there is no stream, without resetting state in the effect
+  return stream ? micLevel : 0;
+}
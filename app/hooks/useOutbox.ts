@@ -0,0 +1,331 @@
+/**
+ * React Hook for the Offline Outbox
+ *
+ * Messages written while offline are queued here (and persisted in
+ * IndexedDB, see storage/outbox.ts) instead of failing. The queue is flushed
+ * through sendMessage when connectivity returns - the caller triggers a flush
+ * from the socket's onConnect callback; the browser's `online` event and the
+ * retry timer trigger it too.
+ *
+ * Delivery rules:
+ * - Messages of a chat go out in the order they were written; a message
+ *   waiting to be retried holds back the later ones of its chat only
+ * - Network, timeout, rate limit and server errors are retried with
+ *   exponential backoff (or the server's Retry-After)
+ * - Other errors, or too many attempts, hand the message back as failed
+ * - Tabs and panes of the same user share the queue: each item is claimed in
+ *   IndexedDB before sending, so only one of them sends it. An item another
+ *   sender already delivered is dropped here too (onSentElsewhere).
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ApiErrorKind, RateLimitedError, toApiError } from '../api/errors';
+import { Message, sendMessage } from '../api/messages';
+import {
+  OUTBOX_MAX_ATTEMPTS,
+  OutboxClaim,
+  OutboxItem,
+  claimOutboxItem,
+  clearOutbox,
+  getOutbox,
+  getOutboxRetryDelay,
+  putOutboxItem,
+  removeOutboxItem,
+} from '../storage/outbox';
+
+interface UseOutboxOptions {
+  token: string | null;
+  ownerId: string | null; // current user; the queue is empty while logged out
+  isOnline: () => boolean; // checked before each flush
+  onDelivered: (item: OutboxItem, message: Message) => void;
+  onGaveUp: (item: OutboxItem, error: unknown) => void;
+  onSentElsewhere: (item: OutboxItem) => void; // sent or discarded by another tab/pane
+}
+
+const RETRYABLE_ERRORS: ApiErrorKind[] = ['network', 'timeout', 'rate_limited', 'server'];
+
+// How soon to look again at an item another sender has claimed
+const CLAIMED_ELSEWHERE_RETRY_MS = 5000;
+
+const byCreatedAt = (a: OutboxItem, b: OutboxItem) => a.createdAt.localeCompare(b.createdAt);
+
+const logStorageError = (action: string) => (error: unknown) => {
+  // The in-memory queue still works; it just won't survive a reload
+  console.error(`❌ [OUTBOX] Failed to ${action}:`, error);
+};
+
+export function useOutbox({ token, ownerId, isOnline, onDelivered, onGaveUp, onSentElsewhere }: UseOutboxOptions) {
+  // Items are tagged with their owner so a previous user's queue is never shown
+  const [state, setState] = useState<{ ownerId: string | null; items: OutboxItem[] }>({
+    ownerId: null,
+    items: [],
+  });
+  const items = state.ownerId === ownerId ? state.items : [];
+
+  // Identifies this hook instance when claiming items
+  const [claimantId] = useState(() => `${Date.now()}-${Math.random().toString(36).slice(2)}`);
+
+  // Authoritative copy for the flush loop (state lags a render behind)
+  const itemsRef = useRef<OutboxItem[]>([]);
+  const isFlushingRef = useRef(false);
+  const flushAgainRef = useRef(false);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const flushRef = useRef<() => Promise<void>>(async () => {});
+
+  const latestRef = useRef({ token, ownerId, isOnline, onDelivered, onGaveUp, onSentElsewhere });
+  useEffect(() => {
+    latestRef.current = { token, ownerId, isOnline, onDelivered, onGaveUp, onSentElsewhere };
+  }, [token, ownerId, isOnline, onDelivered, onGaveUp, onSentElsewhere]);
+
+  const commit = useCallback((owner: string, next: OutboxItem[]) => {
+    itemsRef.current = next;
+    setState({ ownerId: owner, items: next });
+  }, []);
+
+  const removeItem = useCallback(
+    (owner: string, clientId: string) => {
+      if (!itemsRef.current.some((item) => item.clientId === clientId)) return;
+      commit(owner, itemsRef.current.filter((item) => item.clientId !== clientId));
+      removeOutboxItem(clientId).catch(logStorageError('remove outbox item'));
+    },
+    [commit]
+  );
+
+  const updateItem = useCallback(
+    (owner: string, updated: OutboxItem) => {
+      if (!itemsRef.current.some((item) => item.clientId === updated.clientId)) return;
+      commit(owner, itemsRef.current.map((item) => (item.clientId === updated.clientId ? updated : item)));
+      putOutboxItem(updated).catch(logStorageError('update outbox item'));
+    },
+    [commit]
+  );
+
+  const scheduleRetry = useCallback(() => {
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+
+    const now = Date.now();
+    const waiting = itemsRef.current.filter((item) => item.nextAttemptAt > now);
+    if (waiting.length === 0) return;
+
+    const nextAttemptAt = Math.min(...waiting.map((item) => item.nextAttemptAt));
+    retryTimerRef.current = setTimeout(() => {
+      retryTimerRef.current = null;
+      flushRef.current();
+    }, nextAttemptAt - now);
+  }, []);
+
+  /**
+   * Send everything that is due, oldest first
+   */
+  const flush = useCallback(async () => {
+    const { token, ownerId: owner, isOnline } = latestRef.current;
+    if (!token || !owner || itemsRef.current.length === 0) return;
+    if (isFlushingRef.current) {
+      flushAgainRef.current = true;
+      return;
+    }
+    if (!isOnline()) {
+      console.log('📮 [OUTBOX] Offline, holding queued messages:', { count: itemsRef.current.length });
+      return;
+    }
+
+    isFlushingRef.current = true;
+    console.log('📮 [OUTBOX] Flushing:', { count: itemsRef.current.length });
+
+    try {
+      do {
+        flushAgainRef.current = false;
+        const blockedChats = new Set<string>();
+
+        for (const snapshot of [...itemsRef.current]) {
+          // Logged out, went offline, or the item was discarded meanwhile
+          if (latestRef.current.ownerId !== owner || !latestRef.current.isOnline()) return;
+          const item = itemsRef.current.find((i) => i.clientId === snapshot.clientId);
+          if (!item || blockedChats.has(item.chatId)) continue;
+
+          if (item.nextAttemptAt > Date.now()) {
+            blockedChats.add(item.chatId);
+            continue;
+          }
+
+          // Without IndexedDB the queue isn't shared, so there is nothing to claim
+          const claim: OutboxClaim = await claimOutboxItem(item.clientId, claimantId).catch((error) => {
+            logStorageError('claim outbox item')(error);
+            return 'claimed' as const;
+          });
+          if (latestRef.current.ownerId !== owner) return;
+
+          if (claim === 'gone') {
+            console.log('📮 [OUTBOX] Queued message handled elsewhere:', { clientId: item.clientId });
+            commit(owner, itemsRef.current.filter((i) => i.clientId !== item.clientId));
+            latestRef.current.onSentElsewhere(item);
+            continue;
+          }
+          if (claim === 'busy') {
+            // Look again later, in case the other sender fails or disappears
+            console.log('📮 [OUTBOX] Queued message is being sent elsewhere:', { clientId: item.clientId });
+            const recheck = { ...item, nextAttemptAt: Date.now() + CLAIMED_ELSEWHERE_RETRY_MS };
+            commit(owner, itemsRef.current.map((i) => (i.clientId === item.clientId ? recheck : i)));
+            blockedChats.add(item.chatId);
+            continue;
+          }
+
+          try {
+            const message = await sendMessage(token, item.chatId, item.type, item.content);
+            console.log('✅ [OUTBOX] Delivered queued message:', { clientId: item.clientId, messageId: message.id });
+            removeItem(owner, item.clientId);
+            latestRef.current.onDelivered(item, message);
+          } catch (error) {
+            const apiError = toApiError(error);
+            const attempts = item.attempts + 1;
+
+            if (!RETRYABLE_ERRORS.includes(apiError.kind) || attempts >= OUTBOX_MAX_ATTEMPTS) {
+              console.error('❌ [OUTBOX] Giving up on queued message:', {
+                clientId: item.clientId,
+                attempts,
+                kind: apiError.kind,
+              });
+              removeItem(owner, item.clientId);
+              latestRef.current.onGaveUp(item, apiError);
+              continue;
+            }
+
+            const delay =
+              apiError instanceof RateLimitedError && apiError.retryAfter
+                ? apiError.retryAfter * 1000
+                : getOutboxRetryDelay(attempts);
+            console.log('⏳ [OUTBOX] Send failed, retrying later:', {
+              clientId: item.clientId,
+              attempts,
+              delayMs: delay,
+              kind: apiError.kind,
+            });
+            // Releases the claim so another tab may pick it up
+            updateItem(owner, {
+              ...item,
+              attempts,
+              nextAttemptAt: Date.now() + delay,
+              lastError: apiError.message,
+              claimedBy: undefined,
+              claimedUntil: undefined,
+            });
+            blockedChats.add(item.chatId);
+          }
+        }
+      } while (flushAgainRef.current);
+    } finally {
+      isFlushingRef.current = false;
+      scheduleRetry();
+    }
+  }, [claimantId, commit, removeItem, updateItem, scheduleRetry]);
+
+  useEffect(() => {
+    flushRef.current = flush;
+  }, [flush]);
+
+  // Load the persisted queue for the current user, then try to send it
+  useEffect(() => {
+    itemsRef.current = [];
+    if (!ownerId) return;
+
+    let cancelled = false;
+    getOutbox(ownerId)
+      .then((loaded) => {
+        if (cancelled) return;
+        // Keep anything queued while loading
+        const known = new Set(loaded.map((item) => item.clientId));
+        const merged = [...loaded, ...itemsRef.current.filter((item) => !known.has(item.clientId))].sort(byCreatedAt);
+        console.log('📮 [OUTBOX] Loaded queued messages:', { count: loaded.length });
+        commit(ownerId, merged);
+        flushRef.current();
+      })
+      .catch(logStorageError('load outbox'));
+
+    return () => {
+      cancelled = true;
+      if (retryTimerRef.current) {
+        clearTimeout(retryTimerRef.current);
+        retryTimerRef.current = null;
+      }
+    };
+  }, [ownerId, commit]);
+
+  // Flush when the browser reports the network is back
+  useEffect(() => {
+    const handleOnline = () => flushRef.current();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
+  /**
+   * Queue a pending message and try to send it right away
+   */
+  const enqueue = useCallback(
+    (message: Message) => {
+      const owner = latestRef.current.ownerId;
+      if (!owner) return;
+
+      const item: OutboxItem = {
+        clientId: message.clientId || message.id,
+        ownerId: owner,
+        chatId: message.chatId,
+        type: message.type,
+        content: message.content,
+        createdAt: message.createdAt,
+        attempts: 0,
+        nextAttemptAt: 0,
+      };
+      console.log('📮 [OUTBOX] Queued message:', { clientId: item.clientId, chatId: item.chatId });
+      commit(owner, [...itemsRef.current.filter((i) => i.clientId !== item.clientId), item].sort(byCreatedAt));
+      putOutboxItem(item)
+        .catch(logStorageError('persist outbox item'))
+        .finally(() => flushRef.current());
+    },
+    [commit]
+  );
+
+  /**
+   * Skip the backoff wait of one message and flush
+   */
+  const retryNow = useCallback(
+    (clientId: string) => {
+      const owner = latestRef.current.ownerId;
+      const item = itemsRef.current.find((i) => i.clientId === clientId);
+      if (!owner || !item) return;
+
+      // In memory only: writing the item back could overwrite another tab's claim
+      commit(owner, itemsRef.current.map((i) => (i.clientId === clientId ? { ...item, nextAttemptAt: 0 } : i)));
+      flushRef.current();
+    },
+    [commit]
+  );
+
+  /**
+   * Drop a queued message without sending it
+   */
+  const remove = useCallback(
+    (clientId: string) => {
+      const owner = latestRef.current.ownerId;
+      if (owner) {
+        removeItem(owner, clientId);
+      }
+    },
+    [removeItem]
+  );
+
+  /**
+   * Drop the whole queue of the current user (logout)
+   */
+  const clear = useCallback(() => {
+    const owner = latestRef.current.ownerId;
+    if (!owner) return;
+
+    commit(owner, []);
+    clearOutbox(owner).catch(logStorageError('clear outbox'));
+  }, [commit]);
+
+  return { items, enqueue, flush, retryNow, remove, clear };
+}
@@ -0,0 +1,146 @@
+/**
+ * React Hook for the Socket Event Inspector
+ *
+ * Records the socket:traffic events of a ChatSocket (every inbound and
+ * outbound event, see chatSocket.ts) for the inspector panel. Recording
+ * starts as soon as the socket exists, so the panel shows what happened
+ * before it was opened; only the newest `limit` entries are kept.
+ *
+ * Paused recording drops new traffic until resumed. Entries belong to one
+ * socket - a new session starts with an empty log. The hook also holds the
+ * panel's dock position, since opening it publishes the buffered entries.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ChatSocket, SocketTrafficEntry } from '../sockets/chatSocket';
+
+export const DEFAULT_INSPECTOR_LIMIT = 500;
+
+/**
+ * Chat an event belongs to, if its payload names one
+ * (message and chat payloads carry chatId; acks wrap it in data)
+ */
+export const getTrafficChatId = (entry: SocketTrafficEntry): string | undefined => {
+  const { payload } = entry;
+  if (typeof payload !== 'object' || payload === null) return undefined;
+
+  const record = payload as Record<string, unknown>;
+  if (typeof record.chatId === 'string') return record.chatId;
+
+  const data = record.data;
+  if (typeof data === 'object' && data !== null && typeof (data as Record<string, unknown>).chatId === 'string') {
+    return (data as Record<string, unknown>).chatId as string;
+  }
+  return undefined;
+};
+
+export type InspectorDock = 'bottom' | 'right';
+
+interface UseSocketInspectorOptions {
+  limit?: number;
+}
+
+interface Recording {
+  socket: ChatSocket | null; // entries belong to this socket
+  entries: SocketTrafficEntry[];
+}
+
+export function useSocketInspector(
+  socket: ChatSocket | null,
+  { limit = DEFAULT_INSPECTOR_LIMIT }: UseSocketInspectorOptions = {}
+) {
+  // Traffic is buffered in a ref and only copied into state while the panel
+  // is open, so a closed inspector doesn't re-render the session per event
+  const bufferRef = useRef<Recording>({ socket: null, entries: [] });
+  const [snapshot, setSnapshot] = useState<Recording>({ socket: null, entries: [] });
+  const entries = snapshot.socket === socket ? snapshot.entries : [];
+
+  const [dock, setDockState] = useState<InspectorDock | null>(null); // null = closed
+  const isOpenRef = useRef(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const isPausedRef = useRef(false);
+
+  useEffect(() => {
+    isPausedRef.current = isPaused;
+  }, [isPaused]);
+
+  const publishSnapshot = useCallback(() => {
+    setSnapshot({ socket: bufferRef.current.socket, entries: [...bufferRef.current.entries] });
+  }, []);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    return socket.subscribe('socket:traffic', (entry) => {
+      if (isPausedRef.current) return;
+
+      const buffer = bufferRef.current;
+      if (buffer.socket !== socket) {
+        bufferRef.current = { socket, entries: [entry] };
+      } else {
+        buffer.entries.push(entry);
+        if (buffer.entries.length > limit) {
+          buffer.entries.splice(0, buffer.entries.length - limit);
+        }
+      }
+
+      if (isOpenRef.current) {
+        publishSnapshot();
+      }
+    });
+  }, [socket, limit, publishSnapshot]);
+
+  /**
+   * Open the panel docked at a side, or close it (null)
+   */
+  const setDock = useCallback(
+    (next: InspectorDock | null) => {
+      isOpenRef.current = next !== null;
+      setDockState(next);
+      // Show what was recorded while closed
+      if (next) {
+        publishSnapshot();
+      }
+    },
+    [publishSnapshot]
+  );
+
+  const togglePaused = useCallback(() => {
+    setIsPaused((paused) => !paused);
+  }, []);
+
+  const clear = useCallback(() => {
+    bufferRef.current = { socket, entries: [] };
+    setSnapshot({ socket, entries: [] });
+  }, [socket]);
+
+  /**
+   * Download entries (e.g. the filtered ones) as a JSON file
+   */
+  const exportJson = useCallback((toExport: SocketTrafficEntry[]) => {
+    const blob = new Blob([JSON.stringify(toExport, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `socket-events-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }, []);
+
+  /**
+   * Emit a recorded outbound event again
+   * Throws when the socket is down (see ChatSocket.replay)
+   */
+  const replay = useCallback(
+    (entry: SocketTrafficEntry) => {
+      if (!socket) {
+        throw new Error('Cannot replay: Socket not connected');
+      }
+      socket.replay(entry);
+    },
+    [socket]
+  );
+
+  return { entries, dock, setDock, isPaused, togglePaused, clear, exportJson, replay };
+}
@@ -0,0 +1,233 @@
+/**
+ * React Hook for Virtualized Lists
+ *
+ * Renders only the items around the viewport of a scroll container, with
+ * spacer padding standing in for the rest. Item heights are estimated until
+ * rendered, then measured with a ResizeObserver (so images loading or text
+ * wrapping differently are picked up).
+ *
+ * Scroll behaviour:
+ * - While scrolled to the bottom, the list stays stuck to the bottom as items
+ *   are added or grow
+ * - While scrolled up, the visible items hold still, even when items above
+ *   the viewport change height
+ */
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+interface UseVirtualListOptions<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  estimateSize: (item: T) => number; // pixels, used until the item is measured
+  scrollRef: React.RefObject<HTMLElement | null>; // scrolling container
+  listRef: React.RefObject<HTMLElement | null>; // element holding the items, inside the container
+  overscan?: number; // extra items rendered above and below the viewport
+}
+
+export interface VirtualItem<T> {
+  item: T;
+  index: number;
+  key: string;
+}
+
+// Distance from the bottom still treated as "at the bottom"
+const BOTTOM_THRESHOLD_PX = 80;
+
+/**
+ * Index of the first item whose bottom edge is below the given offset
+ */
+const findIndexAt = (offsets: number[], offset: number): number => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (offsets[mid + 1] <= offset) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return Math.max(0, low);
+};
+
+export function useVirtualList<T>({
+  items,
+  getKey,
+  estimateSize,
+  scrollRef,
+  listRef,
+  overscan = 6,
+}: UseVirtualListOptions<T>) {
+  const [sizes, setSizes] = useState<Map<string, number>>(() => new Map());
+  // Viewport relative to the top of the list
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+  const isAtBottomRef = useRef(true);
+  const pendingScrollAdjustRef = useRef(0);
+  const itemObserverRef = useRef<ResizeObserver | null>(null);
+
+  // offsets[i] = top of item i; offsets[items.length] = total height
+  const offsets = useMemo(() => {
+    const result = new Array<number>(items.length + 1);
+    result[0] = 0;
+    items.forEach((item, i) => {
+      result[i + 1] = result[i] + (sizes.get(getKey(item)) ?? estimateSize(item));
+    });
+    return result;
+  }, [items, sizes, getKey, estimateSize]);
+
+  const totalSize = offsets[items.length];
+
+  // Latest values for the observer callbacks
+  const latestRef = useRef({ items, offsets, sizes, getKey, estimateSize });
+  useEffect(() => {
+    latestRef.current = { items, offsets, sizes, getKey, estimateSize };
+  }, [items, offsets, sizes, getKey, estimateSize]);
+
+  const updateViewport = useCallback(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+
+    const listTop = listRef.current?.offsetTop ?? 0;
+    isAtBottomRef.current =
+      container.scrollHeight - container.scrollTop - container.clientHeight <= BOTTOM_THRESHOLD_PX;
+    setViewport({ top: container.scrollTop - listTop, height: container.clientHeight });
+  }, [scrollRef, listRef]);
+
+  // Track scrolling (once per frame) and container resizes
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+
+    let frame: number | null = null;
+    const handleScroll = () => {
+      if (frame !== null) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        updateViewport();
+      });
+    };
+
+    // Also fires once on observe, which sets the initial viewport
+    const resizeObserver = new ResizeObserver(updateViewport);
+    resizeObserver.observe(container);
+    container.addEventListener('scroll', handleScroll, { passive: true });
+
+    return () => {
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+      }
+      resizeObserver.disconnect();
+      container.removeEventListener('scroll', handleScroll);
+    };
+  }, [scrollRef, updateViewport]);
+
+  // Record measured heights; growth above the viewport is compensated
+  // after render so the visible items don't move
+  const handleItemResize = useCallback((entries: ResizeObserverEntry[]) => {
+    const { items, offsets, sizes, getKey, estimateSize } = latestRef.current;
+    const container = scrollRef.current;
+    const listTop = listRef.current?.offsetTop ?? 0;
+    const viewportTop = container ? container.scrollTop - listTop : 0;
+
+    const next = new Map(sizes);
+    let changed = false;
+
+    entries.forEach((entry) => {
+      const key = (entry.target as HTMLElement).dataset.key;
+      if (!key) return;
+
+      const height = entry.borderBoxSize?.[0]?.blockSize ?? entry.target.getBoundingClientRect().height;
+      const index = items.findIndex((item) => getKey(item) === key);
+      const previous = sizes.get(key) ?? (index >= 0 ? estimateSize(items[index]) : height);
+      if (Math.abs(height - previous) < 0.5) return;
+
+      next.set(key, height);
+      changed = true;
+      if (index >= 0 && offsets[index + 1] <= viewportTop && !isAtBottomRef.current) {
+        pendingScrollAdjustRef.current += height - previous;
+      }
+    });
+
+    if (changed) {
+      setSizes(next);
+    }
+  }, [scrollRef, listRef]);
+
+  /**
+   * Ref callback for each rendered item wrapper (needs a data-key attribute)
+   */
+  const measureElement = useCallback(
+    (element: HTMLElement | null) => {
+      if (!element) return;
+
+      if (!itemObserverRef.current) {
+        itemObserverRef.current = new ResizeObserver(handleItemResize);
+      }
+      const observer = itemObserverRef.current;
+      observer.observe(element);
+      return () => observer.unobserve(element);
+    },
+    [handleItemResize]
+  );
+
+  useEffect(() => {
+    return () => itemObserverRef.current?.disconnect();
+  }, []);
+
+  // Hold position or stick to the bottom once new heights are laid out
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+
+    if (isAtBottomRef.current) {
+      container.scrollTop = container.scrollHeight;
+    } else if (pendingScrollAdjustRef.current !== 0) {
+      container.scrollTop += pendingScrollAdjustRef.current;
+    }
+    pendingScrollAdjustRef.current = 0;
+  }, [totalSize, scrollRef]);
+
+  const scrollToBottom = useCallback(
+    (behavior: ScrollBehavior = 'auto') => {
+      const container = scrollRef.current;
+      if (!container) return;
+
+      isAtBottomRef.current = true;
+      container.scrollTo({ top: container.scrollHeight, behavior });
+    },
+    [scrollRef]
+  );
+
+  // Visible range plus overscan
+  const { virtualItems, paddingTop, paddingBottom } = useMemo(() => {
+    if (items.length === 0) {
+      return { virtualItems: [] as VirtualItem<T>[], paddingTop: 0, paddingBottom: 0 };
+    }
+
+    const first = findIndexAt(offsets, Math.max(0, viewport.top));
+    const last = findIndexAt(offsets, Math.max(0, viewport.top + viewport.height));
+    const start = Math.max(0, first - overscan);
+    const end = Math.min(items.length - 1, last + overscan);
+
+    const visible: VirtualItem<T>[] = [];
+    for (let index = start; index <= end; index++) {
+      visible.push({ item: items[index], index, key: getKey(items[index]) });
+    }
+
+    return {
+      virtualItems: visible,
+      paddingTop: offsets[start],
+      paddingBottom: totalSize - offsets[end + 1],
+    };
+  }, [items, offsets, viewport, overscan, getKey, totalSize]);
+
+  return {
+    virtualItems,
+    paddingTop,
+    paddingBottom,
+    totalSize,
+    measureElement,
+    scrollToBottom,
+  };
+}
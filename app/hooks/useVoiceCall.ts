@@ -7,6 +7,7 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { ChatSocket, RTCConfiguration } from '../sockets/chatSocket';
 import { initiateCall, answerCall, rejectCall, endCall } from '../api/calls';
+import { getErrorMessage } from '../api/errors';
 
 export interface CallState {
   callId: string | null;
@@ -241,6 +242,13 @@ export function useVoiceCall(socket: ChatSocket | null, token: string | null) {
     remoteDescriptionSetRef.current = false;
   }, []);
 
+  // Release microphone and peer connection when the owning pane unmounts
+  useEffect(() => {
+    return () => {
+      cleanupWebRTCResources();
+    };
+  }, [cleanupWebRTCResources]);
+
   // End call handler (calls API to end call)
   const handleEndCall = useCallback(async () => {
     const callId = callStateRef.current.callId;
@@ -252,9 +260,9 @@ export function useVoiceCall(socket: ChatSocket | null, token: string | null) {
         try {
           await endCall(token, callId);
           console.log('✅ [VOICECALL] Call ended via API successfully');
-        } catch (error: any) {
+        } catch (error) {
           // If API call fails (e.g., call already ended), still cleanup locally
-          console.warn('⚠️ [VOICECALL] API call to end call failed (may already be ended):', error?.message);
+          console.warn('⚠️ [VOICECALL] API call to end call failed (may already be ended):', getErrorMessage(error, 'Unknown error'));
         }
       } else {
         console.log('📞 [VOICECALL] Ending call locally (no API call needed)');
@@ -637,20 +645,22 @@ export function useVoiceCall(socket: ChatSocket | null, token: string | null) {
       setCallState((prev) => ({ ...prev, status: 'idle' }));
     };
 
-    // Register listeners
-    socket.onCallIncoming = handleCallIncoming;
-    socket.onCallInitiated = handleCallInitiated;
-    socket.onCallAnswered = handleCallAnswered;
-    socket.onCallConnected = handleCallConnected;
-    socket.onCallRejected = handleCallRejected;
-    socket.onCallEnded = handleCallEnded;
-    socket.onCallWebRTCOffer = handleWebRTCOffer;
-    socket.onCallWebRTCAnswer = handleWebRTCAnswer;
-    socket.onCallWebRTCICECandidate = handleICECandidate;
-    socket.onCallError = handleCallError;
+    // Register listeners (alongside any other subscribers of this socket)
+    const unsubscribers = [
+      socket.subscribe('call:incoming', handleCallIncoming),
+      socket.subscribe('call:initiated', handleCallInitiated),
+      socket.subscribe('call:answered', handleCallAnswered),
+      socket.subscribe('call:connected', handleCallConnected),
+      socket.subscribe('call:rejected', handleCallRejected),
+      socket.subscribe('call:ended', handleCallEnded),
+      socket.subscribe('call:webrtc-offer', handleWebRTCOffer),
+      socket.subscribe('call:webrtc-answer', handleWebRTCAnswer),
+      socket.subscribe('call:webrtc-ice-candidate', handleICECandidate),
+      socket.subscribe('call:error', handleCallError),
+    ];
 
     return () => {
-      // Cleanup is handled by socket's internal event system
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
     };
   }, [socket, initPeerConnection, handleEndCall, cleanupWebRTCResources]);
 
@@ -0,0 +1,183 @@
+/**
+ * React Hook for Voice Note Recording
+ *
+ * Captures microphone audio with MediaRecorder and keeps the recorded clip
+ * for preview until it is sent or discarded.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type RecorderStatus = 'idle' | 'recording' | 'preview';
+
+export interface VoiceClip {
+  file: File;
+  url: string; // object URL for preview playback
+  duration: number; // seconds
+}
+
+// Recording stops automatically after this long
+const MAX_RECORDING_SECONDS = 5 * 60;
+
+// Preferred container/codec, first supported wins
+const MIME_TYPE_CANDIDATES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+};
+
+export function useVoiceRecorder() {
+  const [status, setStatus] = useState<RecorderStatus>('idle');
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [clip, setClip] = useState<VoiceClip | null>(null);
+  const [recorderError, setRecorderError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef(0);
+  const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const cancelledRef = useRef(false);
+  const startingRef = useRef(false); // waiting for microphone permission
+  const clipUrlRef = useRef<string | null>(null);
+
+  const stopTimer = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  };
+
+  const releaseClipUrl = () => {
+    if (clipUrlRef.current) {
+      URL.revokeObjectURL(clipUrlRef.current);
+      clipUrlRef.current = null;
+    }
+  };
+
+  // Stop recording; the clip becomes available for preview
+  const stop = useCallback(() => {
+    if (recorderRef.current && recorderRef.current.state !== 'inactive') {
+      recorderRef.current.stop();
+    }
+  }, []);
+
+  // Start recording from the microphone
+  const start = useCallback(async () => {
+    if (recorderRef.current || startingRef.current) return;
+
+    startingRef.current = true;
+    let micStream: MediaStream | null = null;
+    try {
+      setRecorderError(null);
+      micStream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          echoCancellation: true,
+          noiseSuppression: true,
+          autoGainControl: true,
+        },
+      });
+
+      const mimeType = MIME_TYPE_CANDIDATES.find((type) => MediaRecorder.isTypeSupported(type));
+      const recordingStream = micStream; // non-null for the callbacks below
+      const recorder = new MediaRecorder(recordingStream, mimeType ? { mimeType } : undefined);
+      recorderRef.current = recorder;
+      chunksRef.current = [];
+      cancelledRef.current = false;
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          chunksRef.current.push(event.data);
+        }
+      };
+
+      recorder.onstop = () => {
+        stopTimer();
+        recordingStream.getTracks().forEach((track) => track.stop());
+        recorderRef.current = null;
+        setStream(null);
+
+        if (cancelledRef.current) {
+          setStatus('idle');
+          return;
+        }
+
+        const type = recorder.mimeType || mimeType || 'audio/webm';
+        const extension = FILE_EXTENSIONS[type.split(';')[0]] || 'webm';
+        const file = new File(chunksRef.current, `voice-note-${Date.now()}.${extension}`, { type });
+        const duration = (Date.now() - startedAtRef.current) / 1000;
+
+        releaseClipUrl();
+        const url = URL.createObjectURL(file);
+        clipUrlRef.current = url;
+
+        console.log('🎤 [RECORDER] Voice note recorded:', { size: file.size, duration, type });
+        setClip({ file, url, duration });
+        setStatus('preview');
+      };
+
+      recorder.start(250);
+      startedAtRef.current = Date.now();
+      setElapsed(0);
+      setStream(recordingStream);
+      setStatus('recording');
+
+      timerRef.current = setInterval(() => {
+        const seconds = (Date.now() - startedAtRef.current) / 1000;
+        setElapsed(seconds);
+        if (seconds >= MAX_RECORDING_SECONDS) {
+          stop();
+        }
+      }, 250);
+    } catch (error) {
+      console.error('❌ [RECORDER] Error starting recording:', error);
+      // The microphone may already be on if the recorder itself failed
+      micStream?.getTracks().forEach((track) => track.stop());
+      recorderRef.current = null;
+      setRecorderError(
+        micStream
+          ? 'Voice notes cannot be recorded in this browser'
+          : 'Microphone access is required to record voice notes'
+      );
+      setStatus('idle');
+    } finally {
+      startingRef.current = false;
+    }
+  }, [stop]);
+
+  // Discard the recording (or the clip being previewed)
+  const cancel = useCallback(() => {
+    if (recorderRef.current && recorderRef.current.state !== 'inactive') {
+      cancelledRef.current = true;
+      recorderRef.current.stop();
+    }
+    releaseClipUrl();
+    setClip(null);
+    setElapsed(0);
+    setStatus('idle');
+  }, []);
+
+  // Release microphone and preview URL on unmount
+  useEffect(() => {
+    return () => {
+      stopTimer();
+      if (recorderRef.current && recorderRef.current.state !== 'inactive') {
+        cancelledRef.current = true;
+        recorderRef.current.stop();
+      }
+      releaseClipUrl();
+    };
+  }, []);
+
+  return {
+    status,
+    stream,
+    elapsed,
+    clip,
+    recorderError,
+    start,
+    stop,
+    cancel,
+  };
+}
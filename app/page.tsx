@@ -1,5 +1,5 @@
-import ChatApp from './components/SessionPanel';
+import SplitScreen from './components/SplitScreen';
 
 export default function Home() {
-  return <ChatApp />;
+  return <SplitScreen />;
 }
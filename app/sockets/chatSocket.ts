@@ -4,63 +4,168 @@
  * Manages Socket.IO connections for real-time chat features.
  * Each session maintains its own socket connection with its own auth token.
  *
- * Socket events based on POSTMAN_COLLECTION.md:
+ * Socket events based on POSTMAN_COLLECTION.md - the full typed maps are in
+ * socketEvents.ts. Every server payload is validated before its subscribers
+ * run; malformed ones are reported as socket:error and dropped.
+ *
+ * Any number of consumers can listen to the same socket with
+ * subscribe(event, handler), which returns an unsubscribe function.
+ * Constructor callbacks are subscribed the same way.
+ *
+ * Actions the server acknowledges have promise-returning *WithAck variants:
+ * they resolve once the server accepted the action, reject with
+ * SocketAckError when it refused, and fall back to the matching REST
+ * endpoint when the socket is down or the ack doesn't arrive in time.
+ * Actions that would be duplicated (message:send, call:initiate) are never
+ * repeated over REST once emitted - a lost ack rejects with
+ * SocketAckTimeoutError instead.
+ *
+ * All traffic - raw inbound payloads, outbound emits and acks - is also
+ * published as socket:traffic for the event inspector, which can replay
+ * recorded outbound events.
  *
  * Client → Server:
  * - message:send
  * - message:read
  * - message:delivered
+ * - chat:join, chat:leave
+ * - call:*
  *
  * Server → Client:
  * - message:new
  * - message:sent
+ * - message:edited
+ * - message:deleted
  * - message:read
  * - message:delivered
+ * - chat:joined, chat:left, chat:new, chat:updated
  * - user:online
  * - user:offline
+ * - call:*
  */
 
-import { io, Socket } from 'socket.io-client';
-import { Message, MessageApiResponse, transformMessage } from '../api/messages';
+import { ExtendedError, io, Socket } from 'socket.io-client';
+import { answerCall, endCall, initiateCall, rejectCall } from '../api/calls';
+import {
+  Message,
+  MessageType,
+  markMessagesAsDelivered,
+  markMessagesAsRead,
+  sendMessage as sendMessageRest,
+} from '../api/messages';
+import { NetworkError } from '../api/errors';
+import { emitSessionExpired } from '../api/sessionEvents';
+import {
+  AckEventName,
+  CallAnsweredEvent,
+  CallConnectedEvent,
+  CallEndedEvent,
+  CallIncomingEvent,
+  CallInitiatedEvent,
+  CallRejectedEvent,
+  CallWebRTCAnswerEvent,
+  CallWebRTCICECandidateEvent,
+  CallWebRTCOfferEvent,
+  Chat,
+  ClientAckPayloads,
+  ClientToServerEvents,
+  MessageDeletedEvent,
+  MessageDeliveredEvent,
+  MessageReadEvent,
+  ServerEventName,
+  ServerEventPayloads,
+  ServerToClientEvents,
+  SocketAckError,
+  SocketAckTimeoutError,
+  SocketPayloadError,
+  isAckEventName,
+  parseAck,
+  parseServerEvent,
+} from './socketEvents';
+
+export type { Chat, MessageDeletedEvent, RTCConfiguration } from './socketEvents';
+export { SocketAckError, SocketAckTimeoutError } from './socketEvents';
 
 // Base URL for Socket.IO (same as REST API)
 const SOCKET_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000';
 
-export interface Chat {
-  id: string;
-  chatId: string;
-  otherParticipant?: {
-    id: string;
-    phone: string;
-    username?: string;
-    isOnline?: boolean;
-    lastSeen?: string;
-  };
-  lastMessage?: {
-    _id?: string;
-    id?: string;
-    content: string;
-    type: string;
-    status?: string;
-    createdAt: string;
-  };
-  lastMessageAt?: string;
-  createdAt: string;
+// connect_error messages produced by the backend auth middleware (whole
+// message only - other errors merely mentioning a token must not log out)
+const AUTH_ERROR_MESSAGE =
+  /^(authentication (error|failed|required)|unauthori[sz]ed|invalid token|token expired|no token provided|jwt (expired|malformed|must be provided)|invalid signature)\.?$/i;
+
+// Error codes the middleware may attach as error.data.code
+const AUTH_ERROR_CODES = new Set(['UNAUTHORIZED', 'AUTH_ERROR', 'INVALID_TOKEN', 'TOKEN_EXPIRED']);
+
+/**
+ * Whether a connect_error means the server rejected our token
+ */
+const isAuthError = (error: ExtendedError): boolean => {
+  const data: unknown = error.data;
+  if (typeof data === 'object' && data !== null) {
+    const { code, status } = data as { code?: unknown; status?: unknown };
+    if (status === 401 || (typeof code === 'string' && AUTH_ERROR_CODES.has(code.toUpperCase()))) {
+      return true;
+    }
+  }
+  return AUTH_ERROR_MESSAGE.test(error.message.trim());
+};
+
+// How long to wait for the server to acknowledge an action
+export const DEFAULT_ACK_TIMEOUT_MS = 5000;
+
+// Emitted actions the REST fallback must not repeat: the server may have
+// applied them without the ack reaching us, and a retry would create a
+// second message or call
+const NON_REPEATABLE_EVENTS: ReadonlySet<AckEventName> = new Set(['message:send', 'call:initiate']);
+
+export interface AckOptions {
+  timeoutMs?: number; // default DEFAULT_ACK_TIMEOUT_MS
+  fallbackToRest?: boolean; // default true
+}
+
+/**
+ * Outcome of an acknowledged action
+ * via tells whether the server accepted it over the socket or the REST fallback
+ */
+export interface AckResult<T> {
+  via: 'socket' | 'rest';
+  data: T;
+}
+
+/**
+ * One recorded socket event, as sent or received (inbound payloads unvalidated)
+ */
+export interface SocketTrafficEntry {
+  id: number; // increasing per socket
+  direction: 'in' | 'out';
+  event: string; // acks are recorded as `${event} (ack)`
+  payload: unknown;
+  timestamp: string;
+  replayed?: boolean;
 }
 
-export interface RTCConfiguration {
-  iceServers: Array<{
-    urls: string | string[];
-    username?: string;
-    credential?: string;
-  }>;
+/**
+ * Events published to subscribers: every server event (validated) plus
+ * connection lifecycle events
+ */
+export interface ChatSocketEventPayloads extends ServerEventPayloads {
+  connect: undefined;
+  disconnect: { reason: string };
+  'socket:error': Error; // connection errors, malformed payloads, server error events
+  'socket:traffic': SocketTrafficEntry;
 }
 
+export type ChatSocketEventName = keyof ChatSocketEventPayloads;
+export type ChatSocketHandler<E extends ChatSocketEventName> = (payload: ChatSocketEventPayloads[E]) => void;
+
 export interface ChatSocketCallbacks {
   onMessageNew?: (message: Message) => void;
   onMessageSent?: (message: Message) => void;
-  onMessageRead?: (data: { chatId: string; readBy?: string; timestamp?: string }) => void;
-  onMessageDelivered?: (data: { chatId: string; deliveredTo?: string; timestamp?: string }) => void;
+  onMessageEdited?: (message: Message) => void;
+  onMessageDeleted?: (data: MessageDeletedEvent) => void;
+  onMessageRead?: (data: MessageReadEvent) => void;
+  onMessageDelivered?: (data: MessageDeliveredEvent) => void;
   onChatJoined?: (data: { chatId: string }) => void;
   onChatLeft?: (data: { chatId: string }) => void;
   onChatNew?: (chat: Chat) => void;
@@ -68,45 +173,129 @@ export interface ChatSocketCallbacks {
   onUserOnline?: (userId: string) => void;
   onUserOffline?: (userId: string) => void;
   // Call events
-  onCallIncoming?: (data: { callId: string; callerId: string; rtcConfig?: RTCConfiguration }) => void;
-  onCallInitiated?: (data: { callId: string; receiverId: string; rtcConfig?: RTCConfiguration }) => void;
-  onCallAnswered?: (data: { callId: string; receiverId?: string }) => void;
-  onCallConnected?: (data: { callId: string; callerId?: string }) => void;
-  onCallRejected?: (data: { callId: string }) => void;
-  onCallEnded?: (data: { callId: string; endedBy: string }) => void;
-  onCallWebRTCOffer?: (data: { callId: string; offer: RTCSessionDescriptionInit; callerId: string }) => void;
-  onCallWebRTCAnswer?: (data: { callId: string; answer: RTCSessionDescriptionInit; receiverId: string }) => void;
-  onCallWebRTCICECandidate?: (data: { callId: string; candidate: RTCIceCandidateInit; senderId: string }) => void;
+  onCallIncoming?: (data: CallIncomingEvent) => void;
+  onCallInitiated?: (data: CallInitiatedEvent) => void;
+  onCallAnswered?: (data: CallAnsweredEvent) => void;
+  onCallConnected?: (data: CallConnectedEvent) => void;
+  onCallRejected?: (data: CallRejectedEvent) => void;
+  onCallEnded?: (data: CallEndedEvent) => void;
+  onCallWebRTCOffer?: (data: CallWebRTCOfferEvent) => void;
+  onCallWebRTCAnswer?: (data: CallWebRTCAnswerEvent) => void;
+  onCallWebRTCICECandidate?: (data: CallWebRTCICECandidateEvent) => void;
   onCallError?: (error: { message: string }) => void;
   onConnect?: () => void;
   onDisconnect?: () => void;
-  onError?: (error: Error) => void;
+  onError?: (error: Error) => void; // connection errors, malformed payloads (SocketPayloadError)
 }
 
+// Event each constructor callback subscribes to
+const CALLBACK_EVENTS: Record<keyof ChatSocketCallbacks, ChatSocketEventName> = {
+  onMessageNew: 'message:new',
+  onMessageSent: 'message:sent',
+  onMessageEdited: 'message:edited',
+  onMessageDeleted: 'message:deleted',
+  onMessageRead: 'message:read',
+  onMessageDelivered: 'message:delivered',
+  onChatJoined: 'chat:joined',
+  onChatLeft: 'chat:left',
+  onChatNew: 'chat:new',
+  onChatUpdated: 'chat:updated',
+  onUserOnline: 'user:online',
+  onUserOffline: 'user:offline',
+  onCallIncoming: 'call:incoming',
+  onCallInitiated: 'call:initiated',
+  onCallAnswered: 'call:answered',
+  onCallConnected: 'call:connected',
+  onCallRejected: 'call:rejected',
+  onCallEnded: 'call:ended',
+  onCallWebRTCOffer: 'call:webrtc-offer',
+  onCallWebRTCAnswer: 'call:webrtc-answer',
+  onCallWebRTCICECandidate: 'call:webrtc-ice-candidate',
+  onCallError: 'call:error',
+  onConnect: 'connect',
+  onDisconnect: 'disconnect',
+  onError: 'socket:error',
+};
+
 /**
  * Creates and manages a Socket.IO connection for a chat session
  * Each session gets its own isolated socket connection
  */
 export class ChatSocket {
-  private socket: Socket | null = null;
+  private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null;
   private token: string;
-  private callbacks: ChatSocketCallbacks;
-
-  // Expose call event handlers for dynamic assignment
-  public onCallIncoming?: (data: { callId: string; callerId: string; rtcConfig?: RTCConfiguration }) => void;
-  public onCallInitiated?: (data: { callId: string; receiverId: string; rtcConfig?: RTCConfiguration }) => void;
-  public onCallAnswered?: (data: { callId: string; receiverId?: string }) => void;
-  public onCallConnected?: (data: { callId: string; callerId?: string }) => void;
-  public onCallRejected?: (data: { callId: string }) => void;
-  public onCallEnded?: (data: { callId: string; endedBy: string }) => void;
-  public onCallWebRTCOffer?: (data: { callId: string; offer: RTCSessionDescriptionInit; callerId: string }) => void;
-  public onCallWebRTCAnswer?: (data: { callId: string; answer: RTCSessionDescriptionInit; receiverId: string }) => void;
-  public onCallWebRTCICECandidate?: (data: { callId: string; candidate: RTCIceCandidateInit; senderId: string }) => void;
-  public onCallError?: (error: { message: string }) => void;
+  private subscribers = new Map<ChatSocketEventName, Set<ChatSocketHandler<ChatSocketEventName>>>();
+  private trafficId = 0;
 
   constructor(token: string, callbacks: ChatSocketCallbacks = {}) {
     this.token = token;
-    this.callbacks = callbacks;
+
+    (Object.keys(callbacks) as Array<keyof ChatSocketCallbacks>).forEach((name) => {
+      const handler = callbacks[name];
+      if (handler) {
+        this.subscribe(CALLBACK_EVENTS[name], handler as ChatSocketHandler<ChatSocketEventName>);
+      }
+    });
+  }
+
+  /**
+   * Listen to an event; returns a function that removes the handler
+   * Handlers run in subscription order. One throwing doesn't stop the
+   * others - the error is published as socket:error.
+   */
+  subscribe<E extends ChatSocketEventName>(event: E, handler: ChatSocketHandler<E>): () => void {
+    let handlers = this.subscribers.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.subscribers.set(event, handlers);
+    }
+    const entry = handler as ChatSocketHandler<ChatSocketEventName>;
+    handlers.add(entry);
+
+    return () => {
+      this.subscribers.get(event)?.delete(entry);
+    };
+  }
+
+  /**
+   * Call every subscriber of an event
+   */
+  private publish<E extends ChatSocketEventName>(event: E, payload: ChatSocketEventPayloads[E]): void {
+    // Copy so handlers can unsubscribe while we iterate
+    const handlers = Array.from(this.subscribers.get(event) ?? []);
+    handlers.forEach((handler) => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error('❌ [SOCKET] Subscriber failed:', { event, error });
+        if (event !== 'socket:error') {
+          this.publish('socket:error', error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+    });
+  }
+
+  /**
+   * Publish a sent or received event for the inspector
+   */
+  private trace(direction: SocketTrafficEntry['direction'], event: string, payload: unknown, replayed = false): void {
+    this.publish('socket:traffic', {
+      id: ++this.trafficId,
+      direction,
+      event,
+      payload,
+      timestamp: new Date().toISOString(),
+      ...(replayed && { replayed }),
+    });
+  }
+
+  /**
+   * Emit a client event, recording it as traffic
+   */
+  private emit<E extends keyof ClientToServerEvents>(event: E, payload: Parameters<ClientToServerEvents[E]>[0]): void {
+    this.trace('out', event, payload);
+    // socket.io's typed emit() can't resolve a generic event name, hence the cast
+    (this.socket as Socket | null)?.emit(event as string, payload);
   }
 
   /**
@@ -131,7 +320,8 @@ export class ChatSocket {
         socketId: this.socket?.id,
         timestamp: new Date().toISOString(),
       });
-      this.callbacks.onConnect?.();
+      this.trace('in', 'connect', { socketId: this.socket?.id });
+      this.publish('connect', undefined);
     });
 
     this.socket.on('disconnect', (reason) => {
@@ -139,7 +329,8 @@ export class ChatSocket {
         reason,
         timestamp: new Date().toISOString(),
       });
-      this.callbacks.onDisconnect?.();
+      this.trace('in', 'disconnect', { reason });
+      this.publish('disconnect', { reason });
     });
 
     this.socket.on('connect_error', (error) => {
@@ -148,176 +339,186 @@ export class ChatSocket {
         type: error.type,
         timestamp: new Date().toISOString(),
       });
-      this.callbacks.onError?.(error);
+      this.trace('in', 'connect_error', { message: error.message });
+      this.publish('socket:error', error);
+
+      // Stop reconnecting with a dead token and report the expired session
+      if (isAuthError(error)) {
+        console.warn('🔒 [SOCKET] Authentication rejected, stopping reconnection');
+        this.disconnect();
+        emitSessionExpired(this.token, error.message);
+      }
     });
 
     // Message events (Server → Client)
-    // Socket may send API format, so we need to transform it
-    this.socket.on('message:new', (message: Message | MessageApiResponse) => {
+    // Socket may send API format; validation transforms it
+    this.listen('message:new', (message) => {
       console.log('📨 [SOCKET] Received message:new event:', {
-        rawMessage: message,
-        hasSenderId: 'senderId' in message,
-        hasSender: 'sender' in message,
+        id: message.id,
+        chatId: message.chatId,
+        senderId: message.senderId,
+        content: message.content.substring(0, 50),
+        isRead: message.isRead,
+        isDelivered: message.isDelivered,
         timestamp: new Date().toISOString(),
       });
-
-      // Transform if it's in API format
-      const transformedMessage = 'senderId' in message
-        ? message
-        : transformMessage(message as MessageApiResponse);
-
-      console.log('🔄 [SOCKET] Transformed message:', {
-        id: transformedMessage.id,
-        chatId: transformedMessage.chatId,
-        senderId: transformedMessage.senderId,
-        content: transformedMessage.content.substring(0, 50),
-        isRead: transformedMessage.isRead,
-        isDelivered: transformedMessage.isDelivered,
-      });
-
-      this.callbacks.onMessageNew?.(transformedMessage);
     });
 
-    this.socket.on('message:sent', (message: Message | MessageApiResponse) => {
+    this.listen('message:sent', (message) => {
       console.log('✅ [SOCKET] Received message:sent confirmation:', {
-        rawMessage: message,
+        id: message.id,
+        chatId: message.chatId,
         timestamp: new Date().toISOString(),
       });
+    });
 
-      // Transform if it's in API format
-      const transformedMessage = 'senderId' in message
-        ? message
-        : transformMessage(message as MessageApiResponse);
+    // Emitted to both participants after a message is edited via REST
+    this.listen('message:edited', (message) => {
+      console.log('✏️ [SOCKET] Received message:edited event:', {
+        id: message.id,
+        chatId: message.chatId,
+        timestamp: new Date().toISOString(),
+      });
+    });
 
-      this.callbacks.onMessageSent?.(transformedMessage);
+    // Emitted after a message is deleted via REST
+    // (to both participants for everyone, to the deleter's other sessions for "me")
+    this.listen('message:deleted', (data) => {
+      console.log('🗑️ [SOCKET] Received message:deleted event:', {
+        messageId: data.messageId,
+        chatId: data.chatId,
+        deleteForEveryone: data.deleteForEveryone,
+        timestamp: new Date().toISOString(),
+      });
     });
 
     // Message status events (Server → Client)
-    this.socket.on('message:read', (data: { chatId: string; readBy?: string; timestamp?: string }) => {
+    this.listen('message:read', (data) => {
       console.log('✅ [SOCKET] Received message:read event:', {
         chatId: data.chatId,
         readBy: data.readBy,
         timestamp: data.timestamp,
       });
-      this.callbacks.onMessageRead?.(data);
     });
 
-    this.socket.on('message:delivered', (data: { chatId: string; deliveredTo?: string; timestamp?: string }) => {
+    this.listen('message:delivered', (data) => {
       console.log('✅ [SOCKET] Received message:delivered event:', {
         chatId: data.chatId,
         deliveredTo: data.deliveredTo,
         timestamp: data.timestamp,
       });
-      this.callbacks.onMessageDelivered?.(data);
     });
 
     // Chat room events (Server → Client)
-    this.socket.on('chat:joined', (data: { chatId: string }) => {
+    this.listen('chat:joined', (data) => {
       console.log('✅ [SOCKET] Joined chat room:', data.chatId);
-      this.callbacks.onChatJoined?.(data);
     });
 
-    this.socket.on('chat:left', (data: { chatId: string }) => {
+    this.listen('chat:left', (data) => {
       console.log('✅ [SOCKET] Left chat room:', data.chatId);
-      this.callbacks.onChatLeft?.(data);
     });
 
     // Chat list events (Server → Client)
-    this.socket.on('chat:new', (chat: Chat) => {
+    this.listen('chat:new', (chat) => {
       console.log('✅ [SOCKET] New chat created:', {
         chatId: chat.chatId || chat.id,
         otherParticipant: chat.otherParticipant?.username || chat.otherParticipant?.phone,
         timestamp: new Date().toISOString(),
       });
-      this.callbacks.onChatNew?.(chat);
     });
 
-    this.socket.on('chat:updated', (chat: Chat) => {
+    this.listen('chat:updated', (chat) => {
       console.log('✅ [SOCKET] Chat updated:', {
         chatId: chat.chatId || chat.id,
         hasLastMessage: !!chat.lastMessage,
         lastMessageAt: chat.lastMessageAt,
         timestamp: new Date().toISOString(),
       });
-      this.callbacks.onChatUpdated?.(chat);
     });
 
     // Error events
-    this.socket.on('error', (error: any) => {
+    this.listen('error', (error) => {
       console.error('❌ [SOCKET] Socket error:', error);
-      this.callbacks.onError?.(new Error(error.message || 'Socket error'));
+      this.publish('socket:error', new Error(error.message));
     });
 
     // Presence events
-    this.socket.on('user:online', (userId: string) => {
+    this.listen('user:online', (userId) => {
       console.log('User online:', userId);
-      this.callbacks.onUserOnline?.(userId);
     });
 
-    this.socket.on('user:offline', (userId: string) => {
+    this.listen('user:offline', (userId) => {
       console.log('User offline:', userId);
-      this.callbacks.onUserOffline?.(userId);
     });
 
     // Call events (Server → Client)
-    this.socket.on('call:incoming', (data: { callId: string; callerId: string; rtcConfig?: RTCConfiguration }) => {
+    this.listen('call:incoming', (data) => {
       console.log('📞 [SOCKET] Incoming call:', data);
-      this.callbacks.onCallIncoming?.(data);
-      this.onCallIncoming?.(data);
     });
 
-    this.socket.on('call:initiated', (data: { callId: string; receiverId: string; rtcConfig?: RTCConfiguration }) => {
+    this.listen('call:initiated', (data) => {
       console.log('📞 [SOCKET] Call initiated:', data);
-      this.callbacks.onCallInitiated?.(data);
-      this.onCallInitiated?.(data);
     });
 
-    this.socket.on('call:answered', (data: { callId: string; receiverId?: string }) => {
+    this.listen('call:answered', (data) => {
       console.log('📞 [SOCKET] Call answered:', data);
-      this.callbacks.onCallAnswered?.(data);
-      this.onCallAnswered?.(data);
     });
 
-    this.socket.on('call:connected', (data: { callId: string; callerId?: string }) => {
+    this.listen('call:connected', (data) => {
       console.log('📞 [SOCKET] Call connected:', data);
-      this.callbacks.onCallConnected?.(data);
-      this.onCallConnected?.(data);
     });
 
-    this.socket.on('call:rejected', (data: { callId: string }) => {
+    this.listen('call:rejected', (data) => {
       console.log('📞 [SOCKET] Call rejected:', data);
-      this.callbacks.onCallRejected?.(data);
-      this.onCallRejected?.(data);
     });
 
-    this.socket.on('call:ended', (data: { callId: string; endedBy: string }) => {
+    this.listen('call:ended', (data) => {
       console.log('📞 [SOCKET] Call ended:', data);
-      this.callbacks.onCallEnded?.(data);
-      this.onCallEnded?.(data);
     });
 
-    this.socket.on('call:webrtc-offer', (data: { callId: string; offer: RTCSessionDescriptionInit; callerId: string }) => {
+    this.listen('call:webrtc-offer', (data) => {
       console.log('📞 [SOCKET] WebRTC offer received:', data.callId);
-      this.callbacks.onCallWebRTCOffer?.(data);
-      this.onCallWebRTCOffer?.(data);
     });
 
-    this.socket.on('call:webrtc-answer', (data: { callId: string; answer: RTCSessionDescriptionInit; receiverId: string }) => {
+    this.listen('call:webrtc-answer', (data) => {
       console.log('📞 [SOCKET] WebRTC answer received:', data.callId);
-      this.callbacks.onCallWebRTCAnswer?.(data);
-      this.onCallWebRTCAnswer?.(data);
     });
 
-    this.socket.on('call:webrtc-ice-candidate', (data: { callId: string; candidate: RTCIceCandidateInit; senderId: string }) => {
+    this.listen('call:webrtc-ice-candidate', (data) => {
       console.log('📞 [SOCKET] ICE candidate received:', data.callId);
-      this.callbacks.onCallWebRTCICECandidate?.(data);
-      this.onCallWebRTCICECandidate?.(data);
     });
 
-    this.socket.on('call:error', (error: { message: string }) => {
+    this.listen('call:error', (error) => {
       console.error('📞 [SOCKET] Call error:', error);
-      this.callbacks.onCallError?.(error);
-      this.onCallError?.(error);
+    });
+  }
+
+  /**
+   * Validate a server event's payload, log it, then publish it to subscribers
+   * Malformed payloads are reported as socket:error instead of reaching
+   * subscribers
+   */
+  private listen<E extends ServerEventName>(event: E, log: (payload: ServerEventPayloads[E]) => void): void {
+    // socket.io's typed on() can't resolve a generic event name, hence the cast
+    const socket = this.socket as Socket | null;
+    socket?.on(event as string, (raw: unknown) => {
+      this.trace('in', event, raw);
+
+      let payload: ServerEventPayloads[E];
+      try {
+        payload = parseServerEvent(event, raw);
+      } catch (error) {
+        console.error('❌ [SOCKET] Dropped malformed payload:', {
+          event,
+          error: error instanceof Error ? error.message : error,
+          payload: raw,
+        });
+        this.publish('socket:error', error instanceof Error ? error : new Error(String(error)));
+        return;
+      }
+
+      log(payload);
+      this.publish(event, payload as ChatSocketEventPayloads[E]);
     });
   }
 
@@ -325,7 +526,7 @@ export class ChatSocket {
    * Send message via Socket.IO
    * Client → Server: message:send
    */
-  sendMessage(chatId: string, type: string, content: string): void {
+  sendMessage(chatId: string, type: MessageType, content: string): void {
     if (!this.socket?.connected) {
       console.error('❌ [SOCKET] Cannot send message: Socket not connected');
       return;
@@ -339,7 +540,7 @@ export class ChatSocket {
       timestamp: new Date().toISOString(),
     });
 
-    this.socket.emit('message:send', payload);
+    this.emit('message:send', payload);
   }
 
   /**
@@ -358,7 +559,7 @@ export class ChatSocket {
       timestamp: new Date().toISOString(),
     });
 
-    this.socket.emit('chat:join', { chatId });
+    this.emit('chat:join', { chatId });
   }
 
   /**
@@ -377,7 +578,7 @@ export class ChatSocket {
       timestamp: new Date().toISOString(),
     });
 
-    this.socket.emit('chat:leave', { chatId });
+    this.emit('chat:leave', { chatId });
   }
 
   /**
@@ -395,7 +596,7 @@ export class ChatSocket {
       timestamp: new Date().toISOString(),
     });
 
-    this.socket.emit('message:read', { chatId });
+    this.emit('message:read', { chatId });
   }
 
   /**
@@ -413,7 +614,37 @@ export class ChatSocket {
       timestamp: new Date().toISOString(),
     });
 
-    this.socket.emit('message:delivered', { chatId });
+    this.emit('message:delivered', { chatId });
+  }
+
+  /**
+   * Emit a recorded outbound event again, as is
+   * Events the server acknowledges get their ack recorded as traffic too.
+   * Throws when the entry isn't outbound or the socket is down.
+   */
+  replay(entry: SocketTrafficEntry): void {
+    if (entry.direction !== 'out') {
+      throw new Error(`Only outbound events can be replayed (got inbound ${entry.event})`);
+    }
+    // Untyped: the event name comes from a recording
+    const socket = this.socket as Socket | null;
+    if (!socket?.connected) {
+      throw new Error('Cannot replay: Socket not connected');
+    }
+
+    console.log('🔁 [SOCKET] Replaying event:', {
+      event: entry.event,
+      recordedAt: entry.timestamp,
+      timestamp: new Date().toISOString(),
+    });
+
+    const { event, payload } = entry;
+    this.trace('out', event, payload, true);
+    if (isAckEventName(event)) {
+      socket.emit(event, payload, (response: unknown) => this.trace('in', `${event} (ack)`, response, true));
+    } else {
+      socket.emit(event, payload);
+    }
   }
 
   /**
@@ -433,6 +664,178 @@ export class ChatSocket {
     return this.socket?.connected ?? false;
   }
 
+  /**
+   * Emit an event and wait for the server's acknowledgement
+   * Falls back to the REST endpoint when the socket is down or the ack times
+   * out. A refusal (SocketAckError) or malformed ack is not retried - the
+   * server did answer. Non-repeatable events that were emitted and timed out
+   * reject with SocketAckTimeoutError rather than risk applying them twice.
+   * Without the fallback, a socket that is down rejects with NetworkError.
+   */
+  private async emitWithAck<E extends AckEventName>(
+    event: E,
+    payload: Parameters<ClientToServerEvents[E]>[0],
+    restFallback: () => Promise<ClientAckPayloads[E]>,
+    options: AckOptions = {}
+  ): Promise<AckResult<ClientAckPayloads[E]>> {
+    const { timeoutMs = DEFAULT_ACK_TIMEOUT_MS, fallbackToRest = true } = options;
+    // socket.io's typed emitWithAck can't resolve a generic event name, hence the cast
+    const socket = this.socket as Socket | null;
+    let reason: string;
+
+    if (socket?.connected) {
+      console.log('📤 [SOCKET] Emitting with ack:', {
+        event,
+        timeoutMs,
+        socketId: socket.id,
+        timestamp: new Date().toISOString(),
+      });
+
+      this.trace('out', event, payload);
+      try {
+        const response: unknown = await socket.timeout(timeoutMs).emitWithAck(event as string, payload);
+        this.trace('in', `${event} (ack)`, response);
+        const data = parseAck(event, response);
+        console.log('✅ [SOCKET] Ack received:', { event, timestamp: new Date().toISOString() });
+        return { via: 'socket', data };
+      } catch (error) {
+        if (error instanceof SocketAckError || error instanceof SocketPayloadError) {
+          console.error('❌ [SOCKET] Server did not accept action:', { event, error: error.message });
+          throw error;
+        }
+        if (!fallbackToRest || NON_REPEATABLE_EVENTS.has(event)) {
+          console.error('❌ [SOCKET] Action not acknowledged in time:', { event, timeoutMs });
+          throw new SocketAckTimeoutError(event, timeoutMs);
+        }
+        reason = `no ack within ${timeoutMs}ms`;
+      }
+    } else {
+      reason = 'socket not connected';
+    }
+
+    // Only reached with the socket down, so nothing was emitted
+    if (!fallbackToRest) {
+      console.error('❌ [SOCKET] Action not acknowledged:', { event, reason });
+      throw new NetworkError(`${event} was not sent: ${reason}`);
+    }
+
+    console.warn('⚠️ [SOCKET] Falling back to REST:', { event, reason });
+    const data = await restFallback();
+    return { via: 'rest', data };
+  }
+
+  /**
+   * Send a message and wait until the server stored it
+   * Client → Server: message:send (fallback POST /api/v1/messages)
+   */
+  sendMessageWithAck(
+    chatId: string,
+    type: MessageType,
+    content: string,
+    options?: AckOptions
+  ): Promise<AckResult<Message>> {
+    return this.emitWithAck(
+      'message:send',
+      { chatId, type, content },
+      () => sendMessageRest(this.token, chatId, type, content),
+      options
+    );
+  }
+
+  /**
+   * Client → Server: message:read (fallback PUT /api/v1/messages/:chatId/read)
+   * The current backend doesn't acknowledge receipts - routine receipts use
+   * the fire-and-forget markAsRead() instead
+   */
+  markAsReadWithAck(chatId: string, options?: AckOptions): Promise<AckResult<undefined>> {
+    return this.emitWithAck(
+      'message:read',
+      { chatId },
+      async () => {
+        await markMessagesAsRead(this.token, chatId);
+        return undefined;
+      },
+      options
+    );
+  }
+
+  /**
+   * Client → Server: message:delivered (fallback PUT /api/v1/messages/:chatId/delivered)
+   * The current backend doesn't acknowledge receipts - routine receipts use
+   * the fire-and-forget markAsDelivered() instead
+   */
+  markAsDeliveredWithAck(chatId: string, options?: AckOptions): Promise<AckResult<undefined>> {
+    return this.emitWithAck(
+      'message:delivered',
+      { chatId },
+      async () => {
+        await markMessagesAsDelivered(this.token, chatId);
+        return undefined;
+      },
+      options
+    );
+  }
+
+  /**
+   * Client → Server: call:initiate (fallback POST /api/v1/calls)
+   */
+  emitCallInitiateWithAck(receiverId: string, options?: AckOptions): Promise<AckResult<{ callId: string }>> {
+    return this.emitWithAck(
+      'call:initiate',
+      { receiverId },
+      async () => {
+        const call = await initiateCall(this.token, receiverId);
+        return { callId: call.id };
+      },
+      options
+    );
+  }
+
+  /**
+   * Client → Server: call:answer (fallback POST /api/v1/calls/:callId/answer)
+   */
+  emitCallAnswerWithAck(callId: string, options?: AckOptions): Promise<AckResult<undefined>> {
+    return this.emitWithAck(
+      'call:answer',
+      { callId },
+      async () => {
+        await answerCall(this.token, callId);
+        return undefined;
+      },
+      options
+    );
+  }
+
+  /**
+   * Client → Server: call:reject (fallback POST /api/v1/calls/:callId/reject)
+   */
+  emitCallRejectWithAck(callId: string, options?: AckOptions): Promise<AckResult<undefined>> {
+    return this.emitWithAck(
+      'call:reject',
+      { callId },
+      async () => {
+        await rejectCall(this.token, callId);
+        return undefined;
+      },
+      options
+    );
+  }
+
+  /**
+   * Client → Server: call:end (fallback POST /api/v1/calls/:callId/end)
+   */
+  emitCallEndWithAck(callId: string, options?: AckOptions): Promise<AckResult<undefined>> {
+    return this.emitWithAck(
+      'call:end',
+      { callId },
+      async () => {
+        await endCall(this.token, callId);
+        return undefined;
+      },
+      options
+    );
+  }
+
   /**
    * Emit call events (Client → Server)
    */
@@ -441,7 +844,7 @@ export class ChatSocket {
       console.error('❌ [SOCKET] Cannot initiate call: Socket not connected');
       return;
     }
-    this.socket.emit('call:initiate', { receiverId });
+    this.emit('call:initiate', { receiverId });
   }
 
   emitCallAnswer(callId: string): void {
@@ -449,7 +852,7 @@ export class ChatSocket {
       console.error('❌ [SOCKET] Cannot answer call: Socket not connected');
       return;
     }
-    this.socket.emit('call:answer', { callId });
+    this.emit('call:answer', { callId });
   }
 
   emitCallReject(callId: string): void {
@@ -457,7 +860,7 @@ export class ChatSocket {
       console.error('❌ [SOCKET] Cannot reject call: Socket not connected');
       return;
     }
-    this.socket.emit('call:reject', { callId });
+    this.emit('call:reject', { callId });
   }
 
   emitCallEnd(callId: string): void {
@@ -465,7 +868,7 @@ export class ChatSocket {
       console.error('❌ [SOCKET] Cannot end call: Socket not connected');
       return;
     }
-    this.socket.emit('call:end', { callId });
+    this.emit('call:end', { callId });
   }
 
   emitWebRTCOffer(callId: string, offer: RTCSessionDescriptionInit, receiverId: string): void {
@@ -473,7 +876,7 @@ export class ChatSocket {
       console.error('❌ [SOCKET] Cannot send WebRTC offer: Socket not connected');
       return;
     }
-    this.socket.emit('call:webrtc-offer', { callId, offer, receiverId });
+    this.emit('call:webrtc-offer', { callId, offer, receiverId });
   }
 
   emitWebRTCAnswer(callId: string, answer: RTCSessionDescriptionInit, callerId: string): void {
@@ -481,7 +884,7 @@ export class ChatSocket {
       console.error('❌ [SOCKET] Cannot send WebRTC answer: Socket not connected');
       return;
     }
-    this.socket.emit('call:webrtc-answer', { callId, answer, callerId });
+    this.emit('call:webrtc-answer', { callId, answer, callerId });
   }
 
   emitICECandidate(callId: string, candidate: RTCIceCandidateInit, receiverId: string): void {
@@ -489,6 +892,6 @@ export class ChatSocket {
       console.error('❌ [SOCKET] Cannot send ICE candidate: Socket not connected');
       return;
     }
-    this.socket.emit('call:webrtc-ice-candidate', { callId, candidate, receiverId });
+    this.emit('call:webrtc-ice-candidate', { callId, candidate, receiverId });
   }
 }
@@ -0,0 +1,502 @@
+/**
+ * Socket Event Maps and Payload Validation
+ *
+ * Typed maps of every event exchanged with the Socket.IO server, plus
+ * runtime validators for the server's payloads. The server's JSON is not
+ * trusted: each payload is checked (and normalized, e.g. API-format messages
+ * are transformed) before ChatSocket hands it to a callback. A malformed
+ * payload raises SocketPayloadError instead of reaching React state.
+ *
+ * Client → Server: ClientToServerEvents, with ClientAckPayloads for the
+ * events the server acknowledges
+ * Server → Client: ServerToClientEvents (wire format), ServerEventPayloads (validated)
+ */
+
+import { Message, MessageApiResponse, MessageType, transformMessage } from '../api/messages';
+
+export interface Chat {
+  id: string;
+  chatId: string;
+  otherParticipant?: {
+    id: string;
+    phone: string;
+    username?: string;
+    isOnline?: boolean;
+    lastSeen?: string;
+  };
+  lastMessage?: {
+    _id?: string;
+    id?: string;
+    content: string;
+    type: string;
+    status?: string;
+    createdAt: string;
+    isDeleted?: boolean;
+  };
+  lastMessageAt?: string;
+  createdAt: string;
+}
+
+export interface MessageDeletedEvent {
+  messageId: string;
+  chatId: string;
+  deleteForEveryone?: boolean;
+  deletedBy?: string;
+}
+
+export interface MessageReadEvent {
+  chatId: string;
+  readBy?: string;
+  timestamp?: string;
+}
+
+export interface MessageDeliveredEvent {
+  chatId: string;
+  deliveredTo?: string;
+  timestamp?: string;
+}
+
+export interface RTCConfiguration {
+  iceServers: Array<{
+    urls: string | string[];
+    username?: string;
+    credential?: string;
+  }>;
+}
+
+export interface CallIncomingEvent {
+  callId: string;
+  callerId: string;
+  rtcConfig?: RTCConfiguration;
+}
+
+export interface CallInitiatedEvent {
+  callId: string;
+  receiverId: string;
+  rtcConfig?: RTCConfiguration;
+}
+
+export interface CallAnsweredEvent {
+  callId: string;
+  receiverId?: string;
+}
+
+export interface CallConnectedEvent {
+  callId: string;
+  callerId?: string;
+}
+
+export interface CallRejectedEvent {
+  callId: string;
+}
+
+export interface CallEndedEvent {
+  callId: string;
+  endedBy: string;
+}
+
+export interface CallWebRTCOfferEvent {
+  callId: string;
+  offer: RTCSessionDescriptionInit;
+  callerId: string;
+}
+
+export interface CallWebRTCAnswerEvent {
+  callId: string;
+  answer: RTCSessionDescriptionInit;
+  receiverId: string;
+}
+
+export interface CallWebRTCICECandidateEvent {
+  callId: string;
+  candidate: RTCIceCandidateInit;
+  senderId: string;
+}
+
+/**
+ * Payloads handed to ChatSocket callbacks, after validation
+ */
+export interface ServerEventPayloads {
+  'message:new': Message;
+  'message:sent': Message;
+  'message:edited': Message;
+  'message:deleted': MessageDeletedEvent;
+  'message:read': MessageReadEvent;
+  'message:delivered': MessageDeliveredEvent;
+  'chat:joined': { chatId: string };
+  'chat:left': { chatId: string };
+  'chat:new': Chat;
+  'chat:updated': Chat;
+  'user:online': string; // user ID
+  'user:offline': string;
+  'call:incoming': CallIncomingEvent;
+  'call:initiated': CallInitiatedEvent;
+  'call:answered': CallAnsweredEvent;
+  'call:connected': CallConnectedEvent;
+  'call:rejected': CallRejectedEvent;
+  'call:ended': CallEndedEvent;
+  'call:webrtc-offer': CallWebRTCOfferEvent;
+  'call:webrtc-answer': CallWebRTCAnswerEvent;
+  'call:webrtc-ice-candidate': CallWebRTCICECandidateEvent;
+  'call:error': { message: string };
+  error: { message: string };
+}
+
+export type ServerEventName = keyof ServerEventPayloads;
+
+// What the server actually sends, where it differs from the validated payload
+interface ServerWirePayloads extends Omit<
+  ServerEventPayloads,
+  'message:new' | 'message:sent' | 'message:edited' | 'user:online' | 'user:offline' | 'error'
+> {
+  'message:new': Message | MessageApiResponse;
+  'message:sent': Message | MessageApiResponse;
+  'message:edited': Message | MessageApiResponse;
+  'user:online': string | { userId: string };
+  'user:offline': string | { userId: string };
+  error: { message?: string } | string;
+}
+
+export type ServerToClientEvents = {
+  [E in ServerEventName]: (payload: ServerWirePayloads[E]) => void;
+};
+
+/**
+ * Acknowledgement sent back by the server for client events
+ * Same envelope as the REST API: { success, data } or { success: false, message }
+ */
+export interface SocketAckResponse {
+  success: boolean;
+  data?: unknown;
+  message?: string;
+  error?: string;
+}
+
+type AckCallback = (response: SocketAckResponse) => void;
+
+export interface ClientToServerEvents {
+  'message:send': (payload: { chatId: string; type: MessageType; content: string }, ack?: AckCallback) => void;
+  'message:read': (payload: { chatId: string }, ack?: AckCallback) => void;
+  'message:delivered': (payload: { chatId: string }, ack?: AckCallback) => void;
+  'chat:join': (payload: { chatId: string }) => void;
+  'chat:leave': (payload: { chatId: string }) => void;
+  'call:initiate': (payload: { receiverId: string }, ack?: AckCallback) => void;
+  'call:answer': (payload: { callId: string }, ack?: AckCallback) => void;
+  'call:reject': (payload: { callId: string }, ack?: AckCallback) => void;
+  'call:end': (payload: { callId: string }, ack?: AckCallback) => void;
+  'call:webrtc-offer': (payload: { callId: string; offer: RTCSessionDescriptionInit; receiverId: string }) => void;
+  'call:webrtc-answer': (payload: { callId: string; answer: RTCSessionDescriptionInit; callerId: string }) => void;
+  'call:webrtc-ice-candidate': (payload: { callId: string; candidate: RTCIceCandidateInit; receiverId: string }) => void;
+}
+
+/**
+ * Validated `data` of the acknowledgement for each acknowledged client event
+ */
+export interface ClientAckPayloads {
+  'message:send': Message;
+  'message:read': undefined;
+  'message:delivered': undefined;
+  'call:initiate': { callId: string };
+  'call:answer': undefined;
+  'call:reject': undefined;
+  'call:end': undefined;
+}
+
+export type AckEventName = keyof ClientAckPayloads;
+
+/**
+ * A server payload that failed validation
+ */
+export class SocketPayloadError extends Error {
+  readonly event: string;
+  readonly payload: unknown;
+
+  constructor(event: string, reason: string, payload: unknown) {
+    super(`Invalid ${event} payload: ${reason}`);
+    this.name = 'SocketPayloadError';
+    this.event = event;
+    this.payload = payload;
+  }
+}
+
+/**
+ * The server acknowledged a client event with success: false
+ */
+export class SocketAckError extends Error {
+  readonly event: string;
+
+  constructor(event: string, message: string) {
+    super(message);
+    this.name = 'SocketAckError';
+    this.event = event;
+  }
+}
+
+/**
+ * A client event went out on a connected socket but its ack never arrived
+ * The server may still have applied it (the ack can be late or lost)
+ */
+export class SocketAckTimeoutError extends Error {
+  readonly event: string;
+
+  constructor(event: string, timeoutMs: number) {
+    super(`No acknowledgement for ${event} within ${timeoutMs}ms`);
+    this.name = 'SocketAckTimeoutError';
+    this.event = event;
+  }
+}
+
+// Thrown by the validators below; parseServerEvent adds the event name
+class InvalidPayload extends Error {}
+
+type UnknownRecord = Record<string, unknown>;
+
+const MESSAGE_TYPES: MessageType[] = ['text', 'image', 'video', 'voice', 'file'];
+
+const asRecord = (value: unknown, what = 'payload'): UnknownRecord => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new InvalidPayload(`${what} is not an object`);
+  }
+  return value as UnknownRecord;
+};
+
+const requireString = (record: UnknownRecord, field: string): string => {
+  const value = record[field];
+  if (typeof value !== 'string' || value === '') {
+    throw new InvalidPayload(`${field} must be a non-empty string`);
+  }
+  return value;
+};
+
+const optionalString = (record: UnknownRecord, field: string): string | undefined => {
+  const value = record[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    throw new InvalidPayload(`${field} must be a string`);
+  }
+  return value;
+};
+
+const optionalBoolean = (record: UnknownRecord, field: string): boolean | undefined => {
+  const value = record[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'boolean') {
+    throw new InvalidPayload(`${field} must be a boolean`);
+  }
+  return value;
+};
+
+const requireObject = <T>(record: UnknownRecord, field: string): T => asRecord(record[field], field) as T;
+
+const parseMessage = (payload: unknown): Message => {
+  const record = asRecord(payload);
+  requireString(record, 'id');
+  requireString(record, 'chatId');
+  requireString(record, 'createdAt');
+  if (typeof record.content !== 'string') {
+    throw new InvalidPayload('content must be a string');
+  }
+  if (!MESSAGE_TYPES.includes(record.type as MessageType)) {
+    throw new InvalidPayload(`unknown message type ${String(record.type)}`);
+  }
+
+  // Socket may send API format (sender object) or the app's format (senderId)
+  if ('senderId' in record) {
+    requireString(record, 'senderId');
+    const message = record as unknown as Message;
+    return { ...message, isRead: !!message.isRead, isDelivered: !!message.isDelivered };
+  }
+  requireString(asRecord(record.sender, 'sender'), 'id');
+  return transformMessage(record as unknown as MessageApiResponse);
+};
+
+const parseChat = (payload: unknown): Chat => {
+  const record = asRecord(payload);
+  const id = optionalString(record, 'id');
+  const chatId = optionalString(record, 'chatId');
+  if (!id && !chatId) {
+    throw new InvalidPayload('id or chatId is required');
+  }
+  if (record.otherParticipant !== undefined) {
+    requireString(asRecord(record.otherParticipant, 'otherParticipant'), 'id');
+  }
+  if (record.lastMessage !== undefined && record.lastMessage !== null) {
+    const lastMessage = asRecord(record.lastMessage, 'lastMessage');
+    if (typeof lastMessage.content !== 'string') {
+      throw new InvalidPayload('lastMessage.content must be a string');
+    }
+  }
+  return { ...(record as unknown as Chat), id: id || chatId!, chatId: chatId || id! };
+};
+
+const parseChatRoom = (payload: unknown) => ({ chatId: requireString(asRecord(payload), 'chatId') });
+
+// Presence events carry the user ID, bare or wrapped
+const parseUserId = (payload: unknown): string => {
+  if (typeof payload === 'string' && payload !== '') return payload;
+  return requireString(asRecord(payload), 'userId');
+};
+
+const parseRtcConfig = (record: UnknownRecord): RTCConfiguration | undefined => {
+  if (record.rtcConfig === undefined || record.rtcConfig === null) return undefined;
+  const rtcConfig = asRecord(record.rtcConfig, 'rtcConfig');
+  if (!Array.isArray(rtcConfig.iceServers)) {
+    throw new InvalidPayload('rtcConfig.iceServers must be an array');
+  }
+  return rtcConfig as unknown as RTCConfiguration;
+};
+
+const parseErrorMessage = (payload: unknown, fallback: string): { message: string } => {
+  if (typeof payload === 'string') return { message: payload || fallback };
+  return { message: optionalString(asRecord(payload), 'message') || fallback };
+};
+
+const validators: { [E in ServerEventName]: (payload: unknown) => ServerEventPayloads[E] } = {
+  'message:new': parseMessage,
+  'message:sent': parseMessage,
+  'message:edited': parseMessage,
+  'message:deleted': (payload) => {
+    const record = asRecord(payload);
+    return {
+      messageId: requireString(record, 'messageId'),
+      chatId: requireString(record, 'chatId'),
+      deleteForEveryone: optionalBoolean(record, 'deleteForEveryone'),
+      deletedBy: optionalString(record, 'deletedBy'),
+    };
+  },
+  'message:read': (payload) => {
+    const record = asRecord(payload);
+    return {
+      chatId: requireString(record, 'chatId'),
+      readBy: optionalString(record, 'readBy'),
+      timestamp: optionalString(record, 'timestamp'),
+    };
+  },
+  'message:delivered': (payload) => {
+    const record = asRecord(payload);
+    return {
+      chatId: requireString(record, 'chatId'),
+      deliveredTo: optionalString(record, 'deliveredTo'),
+      timestamp: optionalString(record, 'timestamp'),
+    };
+  },
+  'chat:joined': parseChatRoom,
+  'chat:left': parseChatRoom,
+  'chat:new': parseChat,
+  'chat:updated': parseChat,
+  'user:online': parseUserId,
+  'user:offline': parseUserId,
+  'call:incoming': (payload) => {
+    const record = asRecord(payload);
+    return {
+      callId: requireString(record, 'callId'),
+      callerId: requireString(record, 'callerId'),
+      rtcConfig: parseRtcConfig(record),
+    };
+  },
+  'call:initiated': (payload) => {
+    const record = asRecord(payload);
+    return {
+      callId: requireString(record, 'callId'),
+      receiverId: requireString(record, 'receiverId'),
+      rtcConfig: parseRtcConfig(record),
+    };
+  },
+  'call:answered': (payload) => {
+    const record = asRecord(payload);
+    return { callId: requireString(record, 'callId'), receiverId: optionalString(record, 'receiverId') };
+  },
+  'call:connected': (payload) => {
+    const record = asRecord(payload);
+    return { callId: requireString(record, 'callId'), callerId: optionalString(record, 'callerId') };
+  },
+  'call:rejected': (payload) => ({ callId: requireString(asRecord(payload), 'callId') }),
+  'call:ended': (payload) => {
+    const record = asRecord(payload);
+    return { callId: requireString(record, 'callId'), endedBy: requireString(record, 'endedBy') };
+  },
+  'call:webrtc-offer': (payload) => {
+    const record = asRecord(payload);
+    return {
+      callId: requireString(record, 'callId'),
+      offer: requireObject<RTCSessionDescriptionInit>(record, 'offer'),
+      callerId: requireString(record, 'callerId'),
+    };
+  },
+  'call:webrtc-answer': (payload) => {
+    const record = asRecord(payload);
+    return {
+      callId: requireString(record, 'callId'),
+      answer: requireObject<RTCSessionDescriptionInit>(record, 'answer'),
+      receiverId: requireString(record, 'receiverId'),
+    };
+  },
+  'call:webrtc-ice-candidate': (payload) => {
+    const record = asRecord(payload);
+    return {
+      callId: requireString(record, 'callId'),
+      candidate: requireObject<RTCIceCandidateInit>(record, 'candidate'),
+      senderId: requireString(record, 'senderId'),
+    };
+  },
+  'call:error': (payload) => parseErrorMessage(payload, 'Call error'),
+  error: (payload) => parseErrorMessage(payload, 'Socket error'),
+};
+
+/**
+ * Validate and normalize a server payload
+ * Throws SocketPayloadError when the payload doesn't match the event's shape
+ */
+export const parseServerEvent = <E extends ServerEventName>(event: E, payload: unknown): ServerEventPayloads[E] => {
+  try {
+    return validators[event](payload);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new SocketPayloadError(event, reason, payload);
+  }
+};
+
+const ackValidators: { [E in AckEventName]: (data: unknown) => ClientAckPayloads[E] } = {
+  'message:send': parseMessage,
+  'message:read': () => undefined,
+  'message:delivered': () => undefined,
+  // The server may acknowledge with the call record itself
+  'call:initiate': (data) => {
+    const record = asRecord(data, 'data');
+    return { callId: optionalString(record, 'callId') || requireString(record, 'id') };
+  },
+  'call:answer': () => undefined,
+  'call:reject': () => undefined,
+  'call:end': () => undefined,
+};
+
+export const isAckEventName = (event: string): event is AckEventName => Object.hasOwn(ackValidators, event);
+
+/**
+ * Validate an acknowledgement and return its data
+ * Throws SocketAckError when the server refused the action and
+ * SocketPayloadError when the acknowledgement is malformed
+ */
+export const parseAck = <E extends AckEventName>(event: E, response: unknown): ClientAckPayloads[E] => {
+  let record: UnknownRecord;
+  try {
+    record = asRecord(response, 'acknowledgement');
+  } catch (error) {
+    throw new SocketPayloadError(`${event} ack`, (error as Error).message, response);
+  }
+
+  if (record.success !== true) {
+    const message =
+      (typeof record.message === 'string' && record.message) ||
+      (typeof record.error === 'string' && record.error) ||
+      `Server rejected ${event}`;
+    throw new SocketAckError(event, message);
+  }
+
+  try {
+    return ackValidators[event](record.data);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new SocketPayloadError(`${event} ack`, reason, response);
+  }
+};
@@ -0,0 +1,146 @@
+/**
+ * Offline Cache
+ *
+ * Keeps the last known chat list and, per chat, the newest messages and the
+ * call history in IndexedDB, so a restored session renders immediately and
+ * previously opened conversations stay readable without a network. The
+ * server stays the source of truth - callers show the cache, then replace it
+ * with fresh data and write that back.
+ *
+ * Eviction:
+ * - At most CACHE_LIMITS.maxConversations chats per user (least recently used go first)
+ * - At most CACHE_LIMITS.maxMessagesPerConversation messages per chat (newest kept)
+ * - Conversations not opened for CACHE_LIMITS.maxAgeMs are dropped
+ */
+
+import { Call } from '../api/calls';
+import { Chat } from '../api/chats';
+import { Message } from '../api/messages';
+import { STORES, deleteByOwner, openDatabase, promisifyRequest, withStore } from './db';
+
+export const CACHE_LIMITS = {
+  maxConversations: 30,
+  maxMessagesPerConversation: 200,
+  maxAgeMs: 30 * 24 * 60 * 60 * 1000, // 30 days
+};
+
+interface CachedChatList {
+  ownerId: string;
+  chats: Chat[];
+  updatedAt: number;
+}
+
+export interface CachedConversation {
+  key: string; // `${ownerId}:${chatId}`
+  ownerId: string;
+  chatId: string;
+  messages: Message[];
+  hasMoreMessages: boolean; // older messages exist on the server
+  callHistory: Call[];
+  accessedAt: number; // epoch ms, for eviction
+}
+
+export type ConversationUpdate = Partial<Pick<CachedConversation, 'messages' | 'hasMoreMessages' | 'callHistory'>>;
+
+const conversationKey = (ownerId: string, chatId: string) => `${ownerId}:${chatId}`;
+
+/**
+ * Cached chat list of a user, or null when nothing is cached
+ */
+export const getCachedChats = async (ownerId: string): Promise<Chat[] | null> => {
+  const record = await withStore<CachedChatList | undefined>(STORES.chats, 'readonly', (store) =>
+    store.get(ownerId)
+  );
+  return record?.chats ?? null;
+};
+
+export const putCachedChats = async (ownerId: string, chats: Chat[]): Promise<void> => {
+  const record: CachedChatList = { ownerId, chats, updatedAt: Date.now() };
+  await withStore(STORES.chats, 'readwrite', (store) => store.put(record));
+};
+
+/**
+ * Cached conversation, or null when the chat was never opened (or was evicted)
+ */
+export const getCachedConversation = async (
+  ownerId: string,
+  chatId: string
+): Promise<CachedConversation | null> => {
+  const record = await withStore<CachedConversation | undefined>(STORES.conversations, 'readonly', (store) =>
+    store.get(conversationKey(ownerId, chatId))
+  );
+  if (!record || Date.now() - record.accessedAt > CACHE_LIMITS.maxAgeMs) return null;
+  return record;
+};
+
+/**
+ * Update the cached copy of a conversation (fields not given are kept)
+ * Only messages the server has confirmed are cached; queued ones live in the outbox
+ */
+export const putCachedConversation = async (
+  ownerId: string,
+  chatId: string,
+  update: ConversationUpdate
+): Promise<void> => {
+  const key = conversationKey(ownerId, chatId);
+  // Read, merge and write in one transaction so concurrent updates of the
+  // same chat (e.g. messages and call history) don't overwrite each other
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.conversations, 'readwrite');
+  const store = transaction.objectStore(STORES.conversations);
+  const existing = await promisifyRequest<CachedConversation | undefined>(store.get(key));
+
+  const record: CachedConversation = {
+    key,
+    ownerId,
+    chatId,
+    messages: existing?.messages ?? [],
+    hasMoreMessages: existing?.hasMoreMessages ?? false,
+    callHistory: existing?.callHistory ?? [],
+    ...update,
+    accessedAt: Date.now(),
+  };
+
+  if (update.messages) {
+    const confirmed = update.messages
+      .filter((message) => !message.sendState)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    record.messages = confirmed.slice(-CACHE_LIMITS.maxMessagesPerConversation);
+    // Trimmed messages can be fetched again by scrolling up
+    if (record.messages.length < confirmed.length) {
+      record.hasMoreMessages = true;
+    }
+  }
+
+  await promisifyRequest(store.put(record));
+  await evictConversations(ownerId);
+};
+
+/**
+ * Drop expired conversations and the least recently used beyond the limit
+ */
+const evictConversations = async (ownerId: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.conversations, 'readwrite');
+  const store = transaction.objectStore(STORES.conversations);
+  const records = await promisifyRequest<CachedConversation[]>(store.index('ownerId').getAll(ownerId));
+
+  const now = Date.now();
+  const byRecentUse = records.sort((a, b) => b.accessedAt - a.accessedAt);
+  const evicted = byRecentUse.filter(
+    (record, index) => index >= CACHE_LIMITS.maxConversations || now - record.accessedAt > CACHE_LIMITS.maxAgeMs
+  );
+  if (evicted.length === 0) return;
+
+  console.log('🗄️ [STORAGE] Evicting cached conversations:', { count: evicted.length });
+  await Promise.all(evicted.map((record) => promisifyRequest(store.delete(record.key))));
+};
+
+/**
+ * Remove everything cached for a user (chat list and conversations)
+ */
+export const clearCachedData = async (ownerId: string): Promise<void> => {
+  console.log('🗄️ [STORAGE] Clearing cached data:', { ownerId });
+  await withStore(STORES.chats, 'readwrite', (store) => store.delete(ownerId));
+  await deleteByOwner(STORES.conversations, ownerId);
+};
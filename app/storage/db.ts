@@ -0,0 +1,105 @@
+/**
+ * IndexedDB Access
+ *
+ * Opens the app's IndexedDB database (once per page) and wraps requests in
+ * promises. Object stores are created in the upgrade handler below - bump
+ * DB_VERSION when adding one.
+ *
+ * Stores:
+ * - outbox: messages waiting to be sent (keyPath clientId, index ownerId)
+ * - chats: cached chat list per user (keyPath ownerId)
+ * - conversations: cached messages and calls per chat (keyPath key, index ownerId)
+ */
+
+const DB_NAME = 'chat-app';
+const DB_VERSION = 2;
+
+export const STORES = {
+  outbox: 'outbox',
+  chats: 'chats',
+  conversations: 'conversations',
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and on first use, create/upgrade) the database
+ * Rejects where IndexedDB is unavailable (server render, some private modes)
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      console.log('🗄️ [STORAGE] Upgrading database:', { version: DB_VERSION });
+
+      if (!db.objectStoreNames.contains(STORES.outbox)) {
+        const outbox = db.createObjectStore(STORES.outbox, { keyPath: 'clientId' });
+        outbox.createIndex('ownerId', 'ownerId');
+      }
+
+      if (!db.objectStoreNames.contains(STORES.chats)) {
+        db.createObjectStore(STORES.chats, { keyPath: 'ownerId' });
+      }
+
+      if (!db.objectStoreNames.contains(STORES.conversations)) {
+        const conversations = db.createObjectStore(STORES.conversations, { keyPath: 'key' });
+        conversations.createIndex('ownerId', 'ownerId');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to try again
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Resolve an IDBRequest as a promise
+ */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Run a single request against an object store
+ */
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return promisifyRequest(operation(transaction.objectStore(storeName)));
+};
+
+/**
+ * Delete every record of an owner from a store with an ownerId index
+ */
+export const deleteByOwner = async (storeName: StoreName, ownerId: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, 'readwrite');
+  const index = transaction.objectStore(storeName).index('ownerId');
+  const keys = await promisifyRequest(index.getAllKeys(ownerId));
+  const store = transaction.objectStore(storeName);
+  await Promise.all(keys.map((key) => promisifyRequest(store.delete(key))));
+};
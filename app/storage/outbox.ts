@@ -0,0 +1,117 @@
+/**
+ * Message Outbox
+ *
+ * Messages written while offline are kept in IndexedDB until they can be
+ * sent, so they survive reloads. Items are owned by a user (several sessions
+ * can share the browser) and are sent in the order they were written.
+ *
+ * Several tabs or panes of the same user load the same queue, so a sender
+ * claims an item (a short lease, see claimOutboxItem) before sending it.
+ */
+
+import { Message, MessageType } from '../api/messages';
+import { STORES, deleteByOwner, openDatabase, promisifyRequest, withStore } from './db';
+
+export interface OutboxItem {
+  clientId: string; // temporary message ID, also the record key
+  ownerId: string; // user who wrote the message
+  chatId: string;
+  type: MessageType;
+  content: string;
+  createdAt: string;
+  attempts: number; // failed send attempts so far
+  nextAttemptAt: number; // epoch ms; 0 = send as soon as possible
+  lastError?: string;
+  claimedBy?: string; // sender currently delivering it
+  claimedUntil?: number; // epoch ms; the claim lapses if that sender disappears
+}
+
+// Give up (and show the message as failed) after this many attempts
+export const OUTBOX_MAX_ATTEMPTS = 8;
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+
+// Longer than a send can take (request timeout included)
+const CLAIM_DURATION_MS = 60 * 1000;
+
+/**
+ * Delay before the next attempt: exponential backoff with jitter
+ */
+export const getOutboxRetryDelay = (attempts: number): number => {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+/**
+ * Queued message as shown in the chat timeline
+ */
+export const outboxItemToMessage = (item: OutboxItem): Message => ({
+  id: item.clientId,
+  clientId: item.clientId,
+  chatId: item.chatId,
+  senderId: item.ownerId,
+  type: item.type,
+  content: item.content,
+  isRead: false,
+  isDelivered: false,
+  createdAt: item.createdAt,
+  sendState: 'queued',
+});
+
+/**
+ * All queued messages of a user, oldest first
+ */
+export const getOutbox = async (ownerId: string): Promise<OutboxItem[]> => {
+  const items = await withStore<OutboxItem[]>(STORES.outbox, 'readonly', (store) =>
+    store.index('ownerId').getAll(ownerId)
+  );
+  return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+/**
+ * Add or update a queued message
+ */
+export const putOutboxItem = async (item: OutboxItem): Promise<void> => {
+  await withStore(STORES.outbox, 'readwrite', (store) => store.put(item));
+};
+
+/**
+ * Result of claiming a queued message for sending:
+ * - claimed: this sender may send it
+ * - gone: it was sent or discarded elsewhere
+ * - busy: another sender holds an unexpired claim
+ */
+export type OutboxClaim = 'claimed' | 'gone' | 'busy';
+
+/**
+ * Claim a queued message for sending
+ * Read and write run in one transaction, so only one claimant wins
+ */
+export const claimOutboxItem = async (clientId: string, claimantId: string): Promise<OutboxClaim> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.outbox, 'readwrite');
+  const store = transaction.objectStore(STORES.outbox);
+
+  const item = await promisifyRequest<OutboxItem | undefined>(store.get(clientId));
+  if (!item) return 'gone';
+
+  const now = Date.now();
+  if (item.claimedBy && item.claimedBy !== claimantId && (item.claimedUntil ?? 0) > now) {
+    return 'busy';
+  }
+
+  await promisifyRequest(store.put({ ...item, claimedBy: claimantId, claimedUntil: now + CLAIM_DURATION_MS }));
+  return 'claimed';
+};
+
+export const removeOutboxItem = async (clientId: string): Promise<void> => {
+  await withStore(STORES.outbox, 'readwrite', (store) => store.delete(clientId));
+};
+
+/**
+ * Drop all queued messages of a user (logout)
+ */
+export const clearOutbox = async (ownerId: string): Promise<void> => {
+  await deleteByOwner(STORES.outbox, ownerId);
+};
@@ -0,0 +1,162 @@
+/**
+ * Image Compression
+ *
+ * Prepares photos for upload in the browser:
+ * - Decodes the image (applying EXIF orientation)
+ * - Resizes it to fit a maximum dimension
+ * - Re-encodes it as WebP or JPEG at the chosen quality
+ * - Generates a small thumbnail alongside
+ *
+ * Re-encoding through a canvas drops all metadata, so EXIF data such as
+ * GPS location never leaves the device.
+ */
+
+import { ValidationError } from '../api/errors';
+
+export type ImageOutputFormat = 'webp' | 'jpeg';
+
+export interface ImageCompressionOptions {
+  maxDimension?: number; // longest side in pixels
+  quality?: number; // 0-1
+  format?: ImageOutputFormat; // falls back to JPEG where WebP encoding is unsupported
+  thumbnailDimension?: number;
+  thumbnailQuality?: number;
+}
+
+export interface CompressedImage {
+  file: File;
+  thumbnail: File;
+  width: number;
+  height: number;
+  originalSize: number;
+}
+
+export const IMAGE_COMPRESSION_DEFAULTS: Required<ImageCompressionOptions> = {
+  maxDimension: 1920,
+  quality: 0.8,
+  format: 'webp',
+  thumbnailDimension: 320,
+  thumbnailQuality: 0.6,
+};
+
+// Re-encoding would drop the animation
+const PASSTHROUGH_TYPES = ['image/gif'];
+
+const MIME_TYPES: Record<ImageOutputFormat, string> = {
+  webp: 'image/webp',
+  jpeg: 'image/jpeg',
+};
+
+/**
+ * Whether an image should go through compression before upload
+ */
+export const canCompressImage = (file: Blob): boolean =>
+  file.type.startsWith('image/') && !PASSTHROUGH_TYPES.includes(file.type);
+
+const scaleToFit = (width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+const replaceExtension = (name: string, format: ImageOutputFormat): string => {
+  const base = name.replace(/\.[^./]+$/, '') || 'image';
+  return `${base}.${format === 'jpeg' ? 'jpg' : format}`;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> =>
+  new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+
+/**
+ * Draw the image at the given size and encode it
+ * Browsers that can't encode WebP return PNG instead, so retry as JPEG
+ */
+const encodeImage = async (
+  image: ImageBitmap,
+  width: number,
+  height: number,
+  format: ImageOutputFormat,
+  quality: number
+): Promise<{ blob: Blob; format: ImageOutputFormat }> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new ValidationError('Image could not be processed');
+  }
+
+  if (format === 'jpeg') {
+    // JPEG has no alpha channel - flatten transparency onto white
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, 0, 0, width, height);
+
+  const blob = await canvasToBlob(canvas, MIME_TYPES[format], quality);
+  if (blob && blob.type === MIME_TYPES[format]) {
+    return { blob, format };
+  }
+  if (format !== 'jpeg') {
+    return encodeImage(image, width, height, 'jpeg', quality);
+  }
+  throw new ValidationError('Image could not be processed');
+};
+
+/**
+ * Resize, re-encode and strip metadata from an image, and generate a thumbnail
+ */
+export const compressImage = async (
+  file: File | Blob,
+  options: ImageCompressionOptions = {}
+): Promise<CompressedImage> => {
+  const settings = { ...IMAGE_COMPRESSION_DEFAULTS, ...options };
+  const name = file instanceof File ? file.name : 'image';
+
+  let image: ImageBitmap;
+  try {
+    image = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (error) {
+    console.error('❌ [IMAGE] Failed to decode image:', error);
+    throw new ValidationError(`${name} is not a readable image`);
+  }
+
+  try {
+    const size = scaleToFit(image.width, image.height, settings.maxDimension);
+    const thumbnailSize = scaleToFit(image.width, image.height, settings.thumbnailDimension);
+
+    const main = await encodeImage(image, size.width, size.height, settings.format, settings.quality);
+    const thumbnail = await encodeImage(
+      image,
+      thumbnailSize.width,
+      thumbnailSize.height,
+      main.format,
+      settings.thumbnailQuality
+    );
+
+    const compressedName = replaceExtension(name, main.format);
+    const result: CompressedImage = {
+      file: new File([main.blob], compressedName, { type: main.blob.type }),
+      thumbnail: new File([thumbnail.blob], `thumb-${compressedName}`, { type: thumbnail.blob.type }),
+      width: size.width,
+      height: size.height,
+      originalSize: file.size,
+    };
+
+    console.log('🖼️ [IMAGE] Image compressed:', {
+      name,
+      from: `${image.width}x${image.height} ${file.size}B`,
+      to: `${size.width}x${size.height} ${result.file.size}B`,
+      thumbnail: `${thumbnailSize.width}x${thumbnailSize.height} ${result.thumbnail.size}B`,
+      format: main.format,
+    });
+
+    return result;
+  } finally {
+    image.close();
+  }
+};